@@ -1,11 +1,16 @@
 
 import React, { useState, useEffect } from 'react';
-import { Difficulty, UserState } from './types';
+import { Difficulty, LessonData, UserState } from './types';
 import Dashboard from './components/Dashboard';
 import LessonRunner from './components/LessonRunner';
 import Dictionary from './components/Dictionary';
 import Translator from './components/Translator';
 import Account from './components/Account';
+import { clearCachedLessons } from './services/geminiService';
+import { buildReviewLesson, clearReviewQueue } from './services/reviewQueue';
+import { clearAllLessonSnapshots, pruneLessonSnapshots } from './services/lessonProgress';
+import { clearRecordings } from './services/recordings';
+import { clearHintLog } from './services/hintLog';
 import { HeartIcon, StarIcon, FireIcon, LibraryIcon, BookIcon, SunIcon, MoonIcon, UserIcon, TranslateIcon } from './components/Icons';
 
 function App() {
@@ -25,6 +30,7 @@ function App() {
 
   const [view, setView] = useState<'dashboard' | 'lesson' | 'dictionary' | 'translator' | 'account'>('dashboard');
   const [currentTopic, setCurrentTopic] = useState<string | null>(null);
+  const [practiceLesson, setPracticeLesson] = useState<LessonData | null>(null);
 
   // Dark Mode State
   const [darkMode, setDarkMode] = useState(() => {
@@ -45,6 +51,10 @@ function App() {
     }
   }, [darkMode]);
 
+  useEffect(() => {
+    pruneLessonSnapshots();
+  }, []);
+
   const toggleDarkMode = () => {
     setDarkMode(!darkMode);
   };
@@ -59,6 +69,27 @@ function App() {
     setView('lesson');
   };
 
+  // Practice runs the due review items; it doesn't mark any topic as completed
+  const startPractice = () => {
+    if (userState.hearts <= 0) {
+      alert("No hearts left! Wait for a refill (simulated).");
+      setUserState(p => ({ ...p, hearts: 5 })); // Auto refill for demo
+      return;
+    }
+    const lesson = buildReviewLesson();
+    if (!lesson) {
+      alert("Nothing to review right now. (এখন পুনরাবৃত্তির কিছু নেই)");
+      return;
+    }
+    setCurrentTopic(null);
+    setPracticeLesson(lesson);
+    setView('lesson');
+  };
+
+  const spendXp = (amount: number) => {
+    setUserState(prev => ({ ...prev, xp: Math.max(0, prev.xp - amount) }));
+  };
+
   const reduceHearts = () => {
     setUserState(prev => ({
       ...prev,
@@ -100,15 +131,17 @@ function App() {
     
     setView('dashboard');
     setCurrentTopic(null);
+    setPracticeLesson(null);
   };
 
   const handleLessonExit = () => {
     setView('dashboard');
     setCurrentTopic(null);
+    setPracticeLesson(null);
   };
 
   const handleLessonError = () => {
-    alert("Could not generate lesson. Please check API Key or try again.");
+    alert("Could not generate lesson. Check your API key in Account or try again. (অ্যাকাউন্টে আপনার এপিআই কী দেখুন)");
     setView('dashboard');
   };
 
@@ -135,8 +168,11 @@ function App() {
         streak: 0,
         lastLessonDate: undefined
       });
-      localStorage.removeItem('ib_lesson_*'); // Optionally clear lesson cache too? 
-      // Actually localStorage lesson clearing is complex with wildcards, let's just reset user state.
+      clearCachedLessons().catch(e => console.warn("Failed to clear lesson cache:", e));
+      clearReviewQueue();
+      clearRecordings().catch(e => console.warn("Failed to clear recordings:", e));
+      clearAllLessonSnapshots();
+      clearHintLog();
   };
 
   return (
@@ -217,6 +253,7 @@ function App() {
           <Dashboard 
             userState={userState} 
             onSelectTopic={startLesson}
+            onStartPractice={startPractice}
             onDifficultyChange={changeDifficulty}
           />
         ) : view === 'dictionary' ? (
@@ -234,8 +271,11 @@ function App() {
           <LessonRunner 
             difficulty={userState.level}
             topic={currentTopic || 'general'}
+            presetLesson={practiceLesson}
             hearts={userState.hearts}
             reduceHearts={reduceHearts}
+            xp={userState.xp}
+            onSpendXp={spendXp}
             onComplete={handleLessonComplete}
             onExit={handleLessonExit}
             onError={handleLessonError}
@@ -1,8 +1,15 @@
 
-import React, { useRef, useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { UserState, Difficulty } from '../types';
 import { UserIcon, DownloadIcon, UploadIcon, FireIcon, StarIcon, BookIcon, TrashIcon, WifiIcon } from './Icons';
-import { downloadLevelLessons } from '../services/geminiService';
+import { downloadLevelLessons, isAbortError, clearCachedLessons } from '../services/geminiService';
+import { getCacheUsage, CacheUsage } from '../services/storage';
+import { getAllRecordings, importRecordings } from '../services/recordings';
+import ApiKeySettings from './ApiKeySettings';
+import UsagePanel from './UsagePanel';
+import RecordingsPanel from './RecordingsPanel';
+import HintsPanel from './HintsPanel';
+import AdvancedSettings from './AdvancedSettings';
 
 interface AccountProps {
   userState: UserState;
@@ -18,14 +25,29 @@ const Account: React.FC<AccountProps> = ({ userState, onUpdateUser, onImportProg
   
   // Download State
   const [downloadStatus, setDownloadStatus] = useState<{level: string, progress: number, total: number} | null>(null);
+  const downloadAbortRef = useRef<AbortController | null>(null);
+  const [lessonCache, setLessonCache] = useState<CacheUsage | null>(null);
+
+  const refreshCacheUsage = () => {
+      getCacheUsage().then(usage => setLessonCache(usage.lessons));
+  };
+
+  useEffect(() => {
+      refreshCacheUsage();
+  }, []);
 
   const handleSaveName = () => {
     onUpdateUser({ username: tempName });
     setIsEditing(false);
   };
 
-  const handleExport = () => {
-    const dataStr = JSON.stringify(userState, null, 2);
+  const handleExport = async () => {
+    // Pronunciation recordings go along so a teacher can listen to them
+    const recordings = await getAllRecordings().catch(e => {
+      console.warn("Could not read recordings; exporting progress only", e);
+      return [];
+    });
+    const dataStr = JSON.stringify({ ...userState, recordings }, null, 2);
     const blob = new Blob([dataStr], { type: 'application/json' });
     const url = URL.createObjectURL(blob);
     
@@ -49,14 +71,21 @@ const Account: React.FC<AccountProps> = ({ userState, onUpdateUser, onImportProg
       if (!file) return;
 
       const reader = new FileReader();
-      reader.onload = (e) => {
+      reader.onload = async (e) => {
           try {
               const json = e.target?.result as string;
-              const data = JSON.parse(json);
+              const { recordings, ...data } = JSON.parse(json);
               // Basic validation
               if (data && typeof data.xp === 'number' && typeof data.hearts === 'number') {
                   if (confirm("This will overwrite your current progress. Are you sure? (এটি আপনার বর্তমান অগ্রগতি মুছে ফেলবে। আপনি কি নিশ্চিত?)")) {
                       onImportProgress(data);
+                      // Recordings are merged with the ones on this device, not replaced.
+                      // They're extra; a storage failure mustn't undo the progress restore.
+                      try {
+                          await importRecordings(recordings);
+                      } catch (err) {
+                          console.warn("Could not restore recordings", err);
+                      }
                   }
               } else {
                   alert("Invalid backup file. (ভুল ফাইল)");
@@ -81,19 +110,49 @@ const Account: React.FC<AccountProps> = ({ userState, onUpdateUser, onImportProg
   const handleDownloadLessons = async (level: Difficulty) => {
       if (downloadStatus) return; // Busy
       
+      const controller = new AbortController();
+      downloadAbortRef.current = controller;
+
       setDownloadStatus({ level, progress: 0, total: 1 }); // Init
       try {
-          await downloadLevelLessons(level, (completed, total) => {
+          const result = await downloadLevelLessons(level, (completed, total) => {
               setDownloadStatus({ level, progress: completed, total });
-          });
-          alert(`Successfully downloaded all ${level} lessons! (সকল পাঠ ডাউনলোড সম্পন্ন হয়েছে!)`);
+          }, controller.signal);
+          if (result.capReached) {
+              alert(`Today's AI limit was reached after ${result.downloaded} new lesson(s). Download again tomorrow to finish. (আজকের AI সীমা শেষ, কাল আবার ডাউনলোড করুন)`);
+          } else if (result.failedTopics.length > 0) {
+              alert(`${result.failedTopics.length} lesson(s) could not be downloaded. Tap Download again later to resume. (কিছু পাঠ ডাউনলোড হয়নি, পরে আবার চেষ্টা করুন)`);
+          } else {
+              alert(`Successfully downloaded all ${level} lessons! (সকল পাঠ ডাউনলোড সম্পন্ন হয়েছে!)`);
+          }
       } catch (e: any) {
-          alert(`Download failed: ${e.message || "Unknown error"}`);
+          if (isAbortError(e)) {
+              alert("Download stopped. Lessons downloaded so far are kept. (ডাউনলোড বন্ধ করা হয়েছে)");
+          } else {
+              alert(`Download failed: ${e.message || "Unknown error"}`);
+          }
       } finally {
+          downloadAbortRef.current = null;
           setDownloadStatus(null);
+          refreshCacheUsage();
       }
   };
 
+  const handleClearLessons = async () => {
+      if (!confirm("Delete all downloaded lessons? They will be generated again when you open them. (সব ডাউনলোড করা পাঠ মুছে ফেলবেন?)")) return;
+      try {
+          await clearCachedLessons();
+      } catch (e) {
+          console.error("Clear lessons error", e);
+          alert("Could not clear lessons. (পাঠ মুছতে সমস্যা হয়েছে)");
+      }
+      refreshCacheUsage();
+  };
+
+  const handleStopDownload = () => {
+      downloadAbortRef.current?.abort();
+  };
+
   return (
     <div className="max-w-md mx-auto w-full p-4 flex flex-col min-h-[80vh] pb-20 pb-safe-bottom">
        <div className="bg-white dark:bg-slate-800 p-6 rounded-2xl shadow-sm border border-gray-100 dark:border-slate-700 transition-colors duration-300">
@@ -191,8 +250,45 @@ const Account: React.FC<AccountProps> = ({ userState, onUpdateUser, onImportProg
                        </button>
                    ))}
                </div>
+
+               {lessonCache && lessonCache.count > 0 && !downloadStatus && (
+                   <div className="flex items-center justify-between p-3 rounded-xl bg-gray-50 dark:bg-slate-750 border border-gray-100 dark:border-slate-700">
+                       <div>
+                           <p className="text-sm font-bold text-slate-700 dark:text-slate-200">{lessonCache.count} lessons saved</p>
+                           <p className="text-xs text-gray-500 dark:text-gray-400">
+                               {(lessonCache.bytes / 1024 / 1024).toFixed(1)} MB of {Math.round(lessonCache.maxBytes / 1024 / 1024)} MB
+                           </p>
+                       </div>
+                       <button
+                           onClick={handleClearLessons}
+                           className="flex items-center gap-1 text-xs font-bold text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 px-3 py-2 rounded-lg transition-colors"
+                       >
+                           <TrashIcon className="w-4 h-4" />
+                           Clear Cached Lessons
+                       </button>
+                   </div>
+               )}
+
+               {downloadStatus && (
+                   <button
+                       onClick={handleStopDownload}
+                       className="w-full p-2 text-sm font-bold text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-xl transition-colors"
+                   >
+                       Stop Download (বন্ধ করুন)
+                   </button>
+               )}
            </div>
 
+           <ApiKeySettings />
+
+           <RecordingsPanel />
+
+           <HintsPanel />
+
+           <UsagePanel />
+
+           <AdvancedSettings />
+
            {/* Data Management */}
            <div className="space-y-4">
                <h4 className="text-sm font-bold text-gray-400 dark:text-gray-500 uppercase mb-2">Data & Progress</h4>
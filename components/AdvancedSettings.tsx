@@ -0,0 +1,160 @@
+import React, { useEffect, useState } from 'react';
+import { SlidersIcon } from './Icons';
+import { AIFeature, getActiveProviderName } from '../services/aiProvider';
+import { getProxyModels, ProxyModels } from '../services/providers/proxyProvider';
+import { AI_FEATURE_LABELS } from '../constants';
+import {
+  AVAILABLE_MODELS,
+  GenerationSettings,
+  getAllGenerationSettings,
+  getChosenModel,
+  MAX_OUTPUT_TOKENS_RANGE,
+  resetGenerationSettings,
+  setGenerationSettings,
+  TEMPERATURE_RANGE,
+} from '../services/modelSettings';
+
+const FEATURES = Object.keys(AI_FEATURE_LABELS) as AIFeature[];
+
+const getChosenModels = () =>
+  Object.fromEntries(FEATURES.map(feature => [feature, getChosenModel(feature)])) as Record<AIFeature, string | undefined>;
+
+const AdvancedSettings: React.FC = () => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [settings, setSettings] = useState<Record<AIFeature, GenerationSettings>>(() => getAllGenerationSettings());
+  const [chosenModels, setChosenModels] = useState(getChosenModels);
+  // Through the API proxy the server decides which models are allowed
+  const usesProxy = getActiveProviderName() === 'proxy';
+  const [proxyModels, setProxyModels] = useState<ProxyModels | null>(null);
+
+  const refresh = () => {
+    setSettings(getAllGenerationSettings());
+    setChosenModels(getChosenModels());
+  };
+
+  const update = (feature: AIFeature, changes: Partial<GenerationSettings>) => {
+    setGenerationSettings(feature, changes);
+    refresh();
+  };
+
+  const handleReset = () => {
+    resetGenerationSettings();
+    refresh();
+  };
+
+  useEffect(() => {
+    if (!usesProxy || !isOpen) return;
+    let cancelled = false;
+    getProxyModels()
+      .then(list => {
+        if (cancelled) return;
+        // Drop earlier picks the server would reject
+        FEATURES.forEach(feature => {
+          const chosen = getChosenModel(feature);
+          if (chosen && !list.models.includes(chosen)) setGenerationSettings(feature, { model: undefined });
+        });
+        setProxyModels(list);
+        refresh();
+      })
+      .catch(e => console.warn("Could not load the proxy's models", e));
+    return () => { cancelled = true; };
+  }, [usesProxy, isOpen]);
+
+  // Models the picker offers beyond the server default; empty disables it
+  const proxyChoices = proxyModels
+    ? AVAILABLE_MODELS.filter(m => proxyModels.models.includes(m) && m !== proxyModels.defaultModel)
+    : [];
+
+  return (
+    <div className="space-y-4 mb-8">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between text-sm font-bold text-gray-400 dark:text-gray-500 uppercase"
+      >
+        <span className="flex items-center gap-2">
+          <SlidersIcon className="w-4 h-4" />
+          Advanced: AI Models (উন্নত সেটিংস)
+        </span>
+        <span>{isOpen ? '−' : '+'}</span>
+      </button>
+
+      {isOpen && (
+        <>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Lighter models and shorter outputs cost less quota; larger models give better lessons. Lower temperature gives more predictable answers.
+          </p>
+
+          {usesProxy && proxyChoices.length === 0 && (
+            <p className="text-xs text-amber-600 dark:text-amber-400">
+              The server chooses the model{proxyModels?.defaultModel ? ` (${proxyModels.defaultModel})` : ''}; it doesn't allow others. (মডেল সার্ভার ঠিক করে)
+            </p>
+          )}
+
+          {FEATURES.map(feature => (
+            <div key={feature} className="p-3 rounded-xl bg-gray-50 dark:bg-slate-750 border border-gray-100 dark:border-slate-700 space-y-2">
+              <p className="text-sm font-bold text-slate-700 dark:text-slate-200">{AI_FEATURE_LABELS[feature]}</p>
+
+              {usesProxy ? (
+                <select
+                  value={chosenModels[feature] ?? ''}
+                  onChange={(e) => update(feature, { model: e.target.value || undefined })}
+                  disabled={proxyChoices.length === 0}
+                  className="w-full p-2 rounded-lg border border-gray-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-sm text-slate-800 dark:text-white disabled:opacity-60"
+                >
+                  <option value="">Server default{proxyModels?.defaultModel ? ` (${proxyModels.defaultModel})` : ''}</option>
+                  {proxyChoices.map(model => (
+                    <option key={model} value={model}>{model}</option>
+                  ))}
+                </select>
+              ) : (
+                <select
+                  value={settings[feature].model}
+                  onChange={(e) => update(feature, { model: e.target.value })}
+                  className="w-full p-2 rounded-lg border border-gray-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-sm text-slate-800 dark:text-white"
+                >
+                  {AVAILABLE_MODELS.map(model => (
+                    <option key={model} value={model}>{model}</option>
+                  ))}
+                </select>
+              )}
+
+              <label className="block text-xs text-gray-500 dark:text-gray-400">
+                Temperature: <span className="font-bold">{settings[feature].temperature.toFixed(1)}</span>
+                <input
+                  type="range"
+                  min={TEMPERATURE_RANGE.min}
+                  max={TEMPERATURE_RANGE.max}
+                  step={0.1}
+                  value={settings[feature].temperature}
+                  onChange={(e) => update(feature, { temperature: parseFloat(e.target.value) })}
+                  className="w-full"
+                />
+              </label>
+
+              <label className="flex items-center justify-between gap-2 text-xs text-gray-500 dark:text-gray-400">
+                Max output tokens
+                {/* Saved on blur so partial numbers aren't clamped while typing */}
+                <input
+                  key={settings[feature].maxOutputTokens}
+                  type="number"
+                  min={MAX_OUTPUT_TOKENS_RANGE.min}
+                  max={MAX_OUTPUT_TOKENS_RANGE.max}
+                  step={256}
+                  defaultValue={settings[feature].maxOutputTokens}
+                  onBlur={(e) => update(feature, { maxOutputTokens: parseInt(e.target.value, 10) })}
+                  className="w-24 border border-gray-300 dark:border-slate-600 rounded-lg px-2 py-1 bg-white dark:bg-slate-700 text-slate-800 dark:text-white"
+                />
+              </label>
+            </div>
+          ))}
+
+          <button onClick={handleReset} className="text-xs font-bold text-gray-400 hover:text-blue-500 transition-colors">
+            Reset to defaults
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default AdvancedSettings;
@@ -0,0 +1,134 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { KeyIcon, TrashIcon } from './Icons';
+import { ApiKeyStatus, getUserApiKey, maskApiKey, setUserApiKey, testApiKey } from '../services/apiKey';
+
+const STATUS_MESSAGES: Record<ApiKeyStatus, { text: string; className: string }> = {
+  valid: {
+    text: 'Key works (কী সঠিক আছে)',
+    className: 'bg-green-50 dark:bg-green-900/30 text-green-700 dark:text-green-300',
+  },
+  invalid: {
+    text: 'Key is not valid (কী সঠিক নয়)',
+    className: 'bg-red-50 dark:bg-red-900/30 text-red-600 dark:text-red-300',
+  },
+  quota_exhausted: {
+    text: 'Key is valid but its quota is used up. Try again later. (কোটা শেষ, পরে চেষ্টা করুন)',
+    className: 'bg-amber-50 dark:bg-amber-900/30 text-amber-700 dark:text-amber-300',
+  },
+  network_error: {
+    text: 'Could not reach Gemini. Check your internet connection. (সংযোগ পাওয়া যায়নি)',
+    className: 'bg-gray-100 dark:bg-slate-700 text-gray-600 dark:text-gray-300',
+  },
+};
+
+const ApiKeySettings: React.FC = () => {
+  const [savedKey, setSavedKey] = useState<string | null>(() => getUserApiKey());
+  const [draftKey, setDraftKey] = useState('');
+  const [status, setStatus] = useState<ApiKeyStatus | null>(null);
+  const [isTesting, setIsTesting] = useState(false);
+  const testAbortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => testAbortRef.current?.abort(), []);
+
+  const runTest = async (key: string): Promise<ApiKeyStatus | null> => {
+    testAbortRef.current?.abort();
+    const controller = new AbortController();
+    testAbortRef.current = controller;
+
+    setIsTesting(true);
+    setStatus(null);
+    const result = await testApiKey(key, controller.signal);
+    if (controller.signal.aborted) return null;
+
+    setIsTesting(false);
+    setStatus(result);
+    return result;
+  };
+
+  const handleSave = async () => {
+    const key = draftKey.trim();
+    if (!key) return;
+
+    const result = await runTest(key);
+    // A key with no quota left is still the learner's key; keep it for later
+    if (result === 'valid' || result === 'quota_exhausted') {
+      setUserApiKey(key);
+      setSavedKey(key);
+      setDraftKey('');
+    }
+  };
+
+  const handleRemove = () => {
+    if (!confirm("Remove your API key from this device? (এই ডিভাইস থেকে কী মুছে ফেলবেন?)")) return;
+    testAbortRef.current?.abort();
+    setUserApiKey(null);
+    setSavedKey(null);
+    setStatus(null);
+    setIsTesting(false);
+  };
+
+  return (
+    <div className="space-y-4 mb-8">
+      <h4 className="text-sm font-bold text-gray-400 dark:text-gray-500 uppercase flex items-center gap-2">
+        <KeyIcon className="w-4 h-4" />
+        Gemini API Key (এপিআই কী)
+      </h4>
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        Use your own key for lessons and the dictionary. It is stored only on this device and is not included in progress backups.
+      </p>
+
+      {savedKey && (
+        <div className="flex items-center justify-between p-3 rounded-xl bg-gray-50 dark:bg-slate-750 border border-gray-100 dark:border-slate-700">
+          <div>
+            <p className="text-xs text-gray-400 font-bold uppercase">Saved key</p>
+            <p className="font-mono text-sm text-slate-700 dark:text-slate-200">{maskApiKey(savedKey)}</p>
+          </div>
+          <div className="flex items-center gap-1">
+            <button
+              onClick={() => runTest(savedKey)}
+              disabled={isTesting}
+              className="text-xs font-bold text-blue-500 hover:bg-blue-50 dark:hover:bg-blue-900/20 px-3 py-2 rounded-lg transition-colors disabled:opacity-50"
+            >
+              Test
+            </button>
+            <button
+              onClick={handleRemove}
+              className="flex items-center gap-1 text-xs font-bold text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 px-3 py-2 rounded-lg transition-colors"
+            >
+              <TrashIcon className="w-4 h-4" />
+              Remove
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <input
+          type="password"
+          value={draftKey}
+          onChange={(e) => setDraftKey(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+          placeholder={savedKey ? "Paste a new key to replace it" : "Paste your API key"}
+          autoComplete="off"
+          spellCheck={false}
+          className="flex-1 min-w-0 border border-gray-300 dark:border-slate-600 rounded-lg px-3 py-2 text-sm bg-gray-50 dark:bg-slate-700 text-slate-800 dark:text-white"
+        />
+        <button
+          onClick={handleSave}
+          disabled={!draftKey.trim() || isTesting}
+          className="bg-blue-500 text-white px-4 py-2 rounded-lg text-sm font-bold disabled:opacity-50"
+        >
+          {isTesting ? 'Testing...' : 'Save'}
+        </button>
+      </div>
+
+      {status && (
+        <p className={`text-xs font-bold p-2 rounded-lg ${STATUS_MESSAGES[status].className}`}>
+          {STATUS_MESSAGES[status].text}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default ApiKeySettings;
@@ -3,15 +3,20 @@ import React from 'react';
 import { Difficulty, UserState } from '../types';
 import { StarIcon, BookIcon, UserIcon, FireIcon } from './Icons';
 import { TOPICS } from '../constants';
+import { getDueReviewCount } from '../services/reviewQueue';
+import { clearLessonSnapshot, getLessonSnapshots } from '../services/lessonProgress';
 
 interface DashboardProps {
   userState: UserState;
   onSelectTopic: (difficulty: Difficulty, topic: string) => void;
+  onStartPractice: () => void;
   onDifficultyChange: (difficulty: Difficulty) => void;
 }
 
-const Dashboard: React.FC<DashboardProps> = ({ userState, onSelectTopic, onDifficultyChange }) => {
+const Dashboard: React.FC<DashboardProps> = ({ userState, onSelectTopic, onStartPractice, onDifficultyChange }) => {
   const currentTopics = TOPICS[userState.level];
+  const dueReviews = getDueReviewCount();
+  const snapshots = getLessonSnapshots(userState.level);
 
   // Find index of first incomplete lesson for the Avatar position
   let currentLessonIndex = currentTopics.findIndex(
@@ -58,6 +63,30 @@ const Dashboard: React.FC<DashboardProps> = ({ userState, onSelectTopic, onDiffi
         </div>
       </div>
 
+      {/* Practice: missed questions and looked-up words that are due for review */}
+      <div className="px-4 pt-4">
+        <button
+          onClick={onStartPractice}
+          disabled={dueReviews === 0}
+          className="w-full flex items-center justify-between p-4 rounded-2xl bg-white dark:bg-slate-800 border-2 border-b-4 border-purple-200 dark:border-slate-700 shadow-sm transition-all hover:bg-purple-50 dark:hover:bg-slate-750 active:border-b-2 active:translate-y-0.5 disabled:opacity-60 disabled:cursor-default disabled:hover:bg-white dark:disabled:hover:bg-slate-800"
+        >
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 rounded-full bg-purple-100 dark:bg-purple-900/50 text-purple-600 dark:text-purple-300 flex items-center justify-center">
+              <BookIcon className="w-5 h-5" />
+            </div>
+            <div className="text-left">
+              <p className="font-bold text-slate-700 dark:text-slate-200">Practice (অনুশীলন)</p>
+              <p className="text-xs text-gray-500 dark:text-gray-400 bengali-text">
+                {dueReviews > 0 ? `${dueReviews}টি পুনরাবৃত্তি বাকি (${dueReviews} due)` : 'আজকের পুনরাবৃত্তি শেষ (All caught up)'}
+              </p>
+            </div>
+          </div>
+          {dueReviews > 0 && (
+            <span className="px-3 py-1 rounded-full bg-purple-500 text-white text-sm font-bold">{dueReviews}</span>
+          )}
+        </button>
+      </div>
+
       {/* Roadmap Container */}
       <div className="relative w-full overflow-hidden" style={{ height: totalHeight }}>
         
@@ -122,6 +151,9 @@ const Dashboard: React.FC<DashboardProps> = ({ userState, onSelectTopic, onDiffi
             // A node is locked if it's not the first one AND the previous one is not completed
             const isLocked = index > 0 && !userState.completedLessons.includes(`${userState.level}-${currentTopics[index-1].id}`);
             const isCurrent = index === currentLessonIndex;
+            const snapshot = isLocked ? null : snapshots[topic.id] ?? null;
+            // Keep the prompt on the side of the node that faces the middle of the path
+            const promptSide = coords.x > CENTER_X ? 'right-full mr-3' : 'left-full ml-3';
 
             // Convert SVG coords to CSS percentage approximations for responsiveness, 
             // or just use absolute pixels since container is controlled.
@@ -190,6 +222,30 @@ const Dashboard: React.FC<DashboardProps> = ({ userState, onSelectTopic, onDiffi
                         )}
                     </button>
 
+                    {/* Unfinished lesson: resume it or start from the first question */}
+                    {snapshot && (
+                        <div className={`absolute top-1/2 -translate-y-1/2 ${promptSide} w-32 z-20 bg-white dark:bg-slate-800 rounded-xl shadow-lg border-2 border-green-400 dark:border-green-700 p-2 text-center animate-in fade-in duration-300`}>
+                            <button
+                                onClick={() => onSelectTopic(userState.level, topic.id)}
+                                className="w-full text-xs font-bold text-green-600 dark:text-green-400 hover:text-green-700"
+                            >
+                                Continue where you left off
+                                <span className="block font-normal text-gray-500 dark:text-gray-400 bengali-text">
+                                    প্রশ্ন {snapshot.currentIndex + 1}/{snapshot.questionCount} থেকে চালিয়ে যান
+                                </span>
+                            </button>
+                            <button
+                                onClick={() => {
+                                    clearLessonSnapshot(userState.level, topic.id);
+                                    onSelectTopic(userState.level, topic.id);
+                                }}
+                                className="mt-1 text-[11px] text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 underline"
+                            >
+                                Start over (আবার শুরু)
+                            </button>
+                        </div>
+                    )}
+
                     {/* Topic Label */}
                     <div className="absolute top-24 w-40 text-center pointer-events-none">
                         <p className={`text-sm font-bold ${isLocked ? 'text-gray-400' : 'text-slate-700 dark:text-white'} bg-white/60 dark:bg-slate-900/60 backdrop-blur-sm rounded-lg px-2 py-0.5 inline-block`}>
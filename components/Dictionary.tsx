@@ -1,8 +1,9 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { SearchIcon, SpeakerIcon, BookIcon, CheckIcon, XIcon } from './Icons';
-import { lookupWord, checkSentence } from '../services/geminiService';
-import { DictionaryResult } from '../types';
+import { lookupWord, checkSentence, isAbortError, isInputRejectedError, isDailyCapError, DictionaryLookup } from '../services/geminiService';
+import { DictionaryResult, SentenceFeedback } from '../types';
+import SentenceFeedbackCard from './SentenceFeedbackCard';
 
 const LEVELS = [
   { id: 'A1', label: 'A1 (Beginner)' },
@@ -24,6 +25,8 @@ const Dictionary: React.FC = () => {
   const [searchTerm, setSearchTerm] = useState('');
   const [level, setLevel] = useState('A1');
   const [result, setResult] = useState<DictionaryResult | null>(null);
+  const [resultMeta, setResultMeta] = useState<{ source: DictionaryLookup['source'], savedAt: number } | null>(null);
+  const [backgroundRefresh, setBackgroundRefresh] = useState(() => localStorage.getItem('ib_dict_bg_refresh') === 'true');
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
   
@@ -31,7 +34,17 @@ const Dictionary: React.FC = () => {
   const [history, setHistory] = useState<string[]>([]);
   const [userSentence, setUserSentence] = useState('');
   const [feedbackLoading, setFeedbackLoading] = useState(false);
-  const [sentenceFeedback, setSentenceFeedback] = useState<string | null>(null);
+  const [sentenceFeedback, setSentenceFeedback] = useState<{ sentence: string, feedback: SentenceFeedback } | null>(null);
+  const [sentenceError, setSentenceError] = useState<string | null>(null);
+
+  // In-flight requests, so a newer search (or leaving the page) cancels the stale one
+  const searchAbortRef = useRef<AbortController | null>(null);
+  const checkAbortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => {
+    searchAbortRef.current?.abort();
+    checkAbortRef.current?.abort();
+  }, []);
 
   // Load history on mount
   useEffect(() => {
@@ -52,40 +65,80 @@ const Dictionary: React.FC = () => {
       localStorage.removeItem('ib_dict_history');
   };
 
-  const handleSearch = async (e?: React.FormEvent, termOverride?: string) => {
+  const toggleBackgroundRefresh = () => {
+      const next = !backgroundRefresh;
+      setBackgroundRefresh(next);
+      localStorage.setItem('ib_dict_bg_refresh', String(next));
+  };
+
+  const handleSearch = async (e?: React.FormEvent, termOverride?: string, forceRefresh: boolean = false) => {
     if (e) e.preventDefault();
     const term = termOverride || searchTerm;
     if (!term.trim()) return;
 
+    searchAbortRef.current?.abort();
+    checkAbortRef.current?.abort();
+    const controller = new AbortController();
+    searchAbortRef.current = controller;
+
     setLoading(true);
     setError('');
     setResult(null);
+    setResultMeta(null);
     setSentenceFeedback(null);
+    setSentenceError(null);
     setUserSentence('');
     setSearchTerm(term); // Ensure input matches if clicked from history
 
     try {
       const selectedLevel = LEVELS.find(l => l.id === level)?.label || 'A1 (Beginner)';
-      const data = await lookupWord(term, selectedLevel);
-      setResult(data);
-      saveHistory(data.word);
+      const showLookup = (lookup: DictionaryLookup) => {
+        setResult(lookup.entry);
+        setResultMeta({ source: lookup.source, savedAt: lookup.savedAt });
+      };
+      const data = await lookupWord(term, selectedLevel, controller.signal, {
+        forceRefresh,
+        refreshInBackground: backgroundRefresh,
+        onRefresh: lookup => {
+          if (searchAbortRef.current === controller) showLookup(lookup);
+        }
+      });
+      showLookup(data);
+      saveHistory(data.entry.word);
     } catch (err) {
+      if (isAbortError(err)) return;
+      if (isInputRejectedError(err) || isDailyCapError(err)) {
+        setError(err.message);
+        return;
+      }
       setError('শব্দটি খুঁজে পাওয়া যায়নি। আবার চেষ্টা করুন। (Word not found)');
     } finally {
-      setLoading(false);
+      if (searchAbortRef.current === controller) setLoading(false);
     }
   };
 
   const handleCheckSentence = async () => {
       if (!userSentence.trim() || !result) return;
+      checkAbortRef.current?.abort();
+      const controller = new AbortController();
+      checkAbortRef.current = controller;
+
       setFeedbackLoading(true);
+      setSentenceError(null);
       try {
-          const fb = await checkSentence(result.word, userSentence);
-          setSentenceFeedback(fb);
+          const sentence = userSentence.trim();
+          const fb = await checkSentence(result.word, sentence, controller.signal);
+          setSentenceFeedback({ sentence, feedback: fb });
       } catch (e) {
-          setSentenceFeedback("Error checking sentence.");
+          if (isAbortError(e)) return;
+          setSentenceFeedback(null);
+          if (isInputRejectedError(e) || isDailyCapError(e)) {
+              setSentenceError(e.message);
+              return;
+          }
+          setSentenceError("ত্রুটি হয়েছে। আবার চেষ্টা করুন। (Error checking sentence.)");
       } finally {
-          setFeedbackLoading(false);
+          if (checkAbortRef.current === controller) setFeedbackLoading(false);
       }
   };
 
@@ -146,6 +199,15 @@ const Dictionary: React.FC = () => {
                 </option>
               ))}
             </select>
+            <label className="flex items-center gap-2 mt-2 text-xs text-gray-500 dark:text-gray-400 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={backgroundRefresh}
+                onChange={toggleBackgroundRefresh}
+                className="rounded"
+              />
+              Auto-update saved words when online
+            </label>
           </div>
         )}
 
@@ -216,6 +278,20 @@ const Dictionary: React.FC = () => {
         {/* Results */}
         {result && !loading && (
           <div className="mt-8 animate-in fade-in slide-in-from-bottom-4 duration-500">
+
+            {resultMeta?.source === 'cache' && (
+              <div className="flex items-center justify-between mb-4 px-3 py-2 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-lg text-xs">
+                <span className="font-bold text-amber-700 dark:text-amber-300 bengali-text">
+                  Offline copy (অফলাইন কপি) · {new Date(resultMeta.savedAt).toLocaleDateString()}
+                </span>
+                <button
+                  onClick={() => handleSearch(undefined, result.word, true)}
+                  className="font-bold text-blue-500 hover:underline"
+                >
+                  Refresh
+                </button>
+              </div>
+            )}
             
             {/* PRONUNCIATION TAB CONTENT */}
             {activeTab === 'pronunciation' ? (
@@ -358,8 +434,11 @@ const Dictionary: React.FC = () => {
                       </button>
                   </div>
                   {sentenceFeedback && (
-                      <div className="mt-3 p-3 bg-indigo-50 dark:bg-indigo-900/30 text-indigo-800 dark:text-indigo-200 rounded-lg text-sm bengali-text animate-in fade-in">
-                          {sentenceFeedback}
+                      <SentenceFeedbackCard sentence={sentenceFeedback.sentence} feedback={sentenceFeedback.feedback} />
+                  )}
+                  {sentenceError && (
+                      <div className="mt-3 p-3 bg-red-50 dark:bg-red-900/30 text-red-600 dark:text-red-300 rounded-lg text-sm bengali-text animate-in fade-in">
+                          {sentenceError}
                       </div>
                   )}
               </div>
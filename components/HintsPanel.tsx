@@ -0,0 +1,59 @@
+import React, { useState } from 'react';
+import { StarIcon } from './Icons';
+import { clearHintLog, getHintedQuestions, HintedQuestion } from '../services/hintLog';
+
+const SHOWN_QUESTIONS = 10;
+
+const HintsPanel: React.FC = () => {
+  const [questions, setQuestions] = useState<HintedQuestion[]>(() => getHintedQuestions());
+
+  const handleClear = () => {
+    if (!confirm("Clear the hint history? (সাহায্যের হিসাব মুছে ফেলবেন?)")) return;
+    clearHintLog();
+    setQuestions(getHintedQuestions());
+  };
+
+  if (questions.length === 0) return null;
+
+  return (
+    <div className="space-y-4 mb-8">
+      <h4 className="text-sm font-bold text-gray-400 dark:text-gray-500 uppercase flex items-center gap-2">
+        <StarIcon className="w-4 h-4" />
+        Hints Used (সাহায্য)
+      </h4>
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        Questions that needed the most help. (যে প্রশ্নগুলোতে সবচেয়ে বেশি সাহায্য লেগেছে)
+      </p>
+
+      <div className="rounded-xl border border-gray-100 dark:border-slate-700 overflow-hidden">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-50 dark:bg-slate-750 text-xs text-gray-400 uppercase">
+            <tr>
+              <th className="text-left p-2">Question</th>
+              <th className="text-left p-2">Topic</th>
+              <th className="text-right p-2">Hints</th>
+            </tr>
+          </thead>
+          <tbody className="text-slate-700 dark:text-slate-200">
+            {questions.slice(0, SHOWN_QUESTIONS).map(q => (
+              <tr key={`${q.questionType}|${q.questionText}`} className="border-t border-gray-100 dark:border-slate-700">
+                <td className="p-2 bengali-text max-w-[12rem] truncate" title={q.questionText}>{q.questionText}</td>
+                <td className="p-2 text-xs text-gray-500 dark:text-gray-400">{q.topic}</td>
+                <td className="p-2 text-right font-bold">{q.hints}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <button
+        onClick={handleClear}
+        className="text-xs font-bold text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 px-3 py-2 rounded-lg transition-colors"
+      >
+        Clear hint history
+      </button>
+    </div>
+  );
+};
+
+export default HintsPanel;
@@ -0,0 +1,86 @@
+import React, { useEffect, useState } from 'react';
+import { MicrophoneIcon, PlayIcon, TrashIcon } from './Icons';
+import { clearRecordings, getAllRecordings, SentenceRecordings } from '../services/recordings';
+
+const RecordingsPanel: React.FC = () => {
+  const [recordings, setRecordings] = useState<SentenceRecordings[]>([]);
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const refresh = () => {
+    getAllRecordings().then(setRecordings);
+  };
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const handleClear = async () => {
+    if (!confirm("Delete all pronunciation recordings? (সব উচ্চারণ রেকর্ডিং মুছে ফেলবেন?)")) return;
+    try {
+      await clearRecordings();
+    } catch (e) {
+      console.error("Clear recordings error", e);
+    }
+    refresh();
+  };
+
+  const playAudio = (url: string) => new Audio(url).play().catch(() => {});
+
+  return (
+    <div className="space-y-4 mb-8">
+      <h4 className="text-sm font-bold text-gray-400 dark:text-gray-500 uppercase flex items-center gap-2">
+        <MicrophoneIcon className="w-4 h-4" />
+        Pronunciation Recordings (উচ্চারণ)
+      </h4>
+
+      {recordings.length === 0 ? (
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          Your checked pronunciation attempts will appear here. (আপনার উচ্চারণের রেকর্ডিং এখানে দেখা যাবে)
+        </p>
+      ) : (
+        <>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Listen to your first and latest attempts to hear your progress. Recordings are included in the backup file.
+          </p>
+          <div className="rounded-xl border border-gray-100 dark:border-slate-700 divide-y divide-gray-100 dark:divide-slate-700 overflow-hidden">
+            {recordings.map(({ sentence, attempts }) => (
+              <div key={sentence} className="bg-white dark:bg-slate-800">
+                <button
+                  onClick={() => setExpanded(expanded === sentence ? null : sentence)}
+                  className="w-full flex items-center justify-between gap-2 p-3 text-left hover:bg-gray-50 dark:hover:bg-slate-750"
+                >
+                  <span className="text-sm text-slate-700 dark:text-slate-200 truncate">{sentence}</span>
+                  <span className="text-xs font-bold text-gray-400 flex-shrink-0">{attempts.length}×</span>
+                </button>
+                {expanded === sentence && (
+                  <div className="flex flex-wrap gap-2 px-3 pb-3">
+                    {attempts.map(a => (
+                      <button
+                        key={a.recordedAt}
+                        onClick={() => playAudio(a.audio)}
+                        title={`"${a.transcript}"`}
+                        className={`flex items-center gap-1 px-3 py-1.5 rounded-full text-xs font-bold border ${a.isCorrect ? 'border-green-300 text-green-700 dark:border-green-800 dark:text-green-300' : 'border-red-300 text-red-600 dark:border-red-800 dark:text-red-300'} hover:bg-gray-50 dark:hover:bg-slate-700`}
+                      >
+                        <PlayIcon className="w-3 h-3" />
+                        {new Date(a.recordedAt).toLocaleDateString()} · {a.score}%
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+          <button
+            onClick={handleClear}
+            className="flex items-center gap-1 text-xs font-bold text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 px-3 py-2 rounded-lg transition-colors"
+          >
+            <TrashIcon className="w-4 h-4" />
+            Delete Recordings
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default RecordingsPanel;
@@ -0,0 +1,105 @@
+import React, { useState } from 'react';
+import { GrammarErrorCategory, SentenceFeedback } from '../types';
+import { CheckIcon } from './Icons';
+
+interface SentenceFeedbackCardProps {
+  sentence: string;
+  feedback: SentenceFeedback;
+}
+
+const CATEGORY_LABELS: Record<GrammarErrorCategory, string> = {
+  tense: 'Tense (কাল)',
+  article: 'Article (a/an/the)',
+  preposition: 'Preposition (পদান্বয়ী অব্যয়)',
+  word_usage: 'Word Usage (শব্দের ব্যবহার)',
+  spelling: 'Spelling (বানান)',
+  word_order: 'Word Order (শব্দক্রম)',
+  agreement: 'Agreement (কর্তা-ক্রিয়া)',
+  punctuation: 'Punctuation (যতিচিহ্ন)',
+  other: 'Other (অন্যান্য)',
+};
+
+const SentenceFeedbackCard: React.FC<SentenceFeedbackCardProps> = ({ sentence, feedback }) => {
+  const [activeError, setActiveError] = useState<number | null>(null);
+
+  // Split the learner's sentence into plain text and error spans
+  const segments: { text: string; errorIndex: number | null }[] = [];
+  let cursor = 0;
+  feedback.errors.forEach((err, index) => {
+    if (err.start > cursor) segments.push({ text: sentence.slice(cursor, err.start), errorIndex: null });
+    segments.push({ text: sentence.slice(err.start, err.end), errorIndex: index });
+    cursor = err.end;
+  });
+  if (cursor < sentence.length) segments.push({ text: sentence.slice(cursor), errorIndex: null });
+
+  const naturalnessColor = feedback.naturalness >= 80 ? 'bg-green-500' : feedback.naturalness >= 50 ? 'bg-yellow-400' : 'bg-red-400';
+
+  return (
+    <div className="mt-3 p-3 bg-indigo-50 dark:bg-indigo-900/30 rounded-lg text-sm animate-in fade-in space-y-3">
+      <div className="flex items-center gap-2">
+        {feedback.isCorrect && (
+          <span className="bg-green-500 rounded-full p-0.5">
+            <CheckIcon className="w-3 h-3 text-white" />
+          </span>
+        )}
+        <p className="text-indigo-800 dark:text-indigo-200 bengali-text font-medium">{feedback.summary}</p>
+      </div>
+
+      {/* Learner's sentence with inline corrections */}
+      {feedback.errors.length > 0 && (
+        <p className="text-base leading-loose text-slate-700 dark:text-slate-200">
+          {segments.map((seg, i) => seg.errorIndex === null ? (
+            <span key={i}>{seg.text}</span>
+          ) : (
+            <button
+              key={i}
+              onClick={() => setActiveError(activeError === seg.errorIndex ? null : seg.errorIndex)}
+              className={`rounded px-0.5 transition-colors ${activeError === seg.errorIndex ? 'bg-red-200 dark:bg-red-800/60' : 'bg-red-100 dark:bg-red-900/40'}`}
+            >
+              <span className="line-through decoration-red-500 text-red-600 dark:text-red-300">{seg.text}</span>
+              {feedback.errors[seg.errorIndex].suggestion && (
+                <span className="ml-1 font-bold text-green-600 dark:text-green-400">{feedback.errors[seg.errorIndex].suggestion}</span>
+              )}
+            </button>
+          ))}
+        </p>
+      )}
+
+      {/* Error explanations */}
+      {feedback.errors.length > 0 && (
+        <ul className="space-y-2">
+          {feedback.errors.map((err, index) => (
+            <li
+              key={index}
+              onClick={() => setActiveError(index)}
+              className={`p-2 rounded-md border cursor-pointer ${activeError === index ? 'border-red-300 bg-white dark:bg-slate-800' : 'border-transparent'}`}
+            >
+              <p className="text-xs font-bold text-red-500 uppercase">{CATEGORY_LABELS[err.category]}</p>
+              <p className="text-slate-700 dark:text-slate-300 bengali-text">{err.explanation}</p>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {!feedback.isCorrect && feedback.correctedSentence !== sentence && (
+        <div>
+          <p className="text-xs font-bold text-gray-400 uppercase mb-1">Corrected (সঠিক বাক্য)</p>
+          <p className="text-green-700 dark:text-green-300 font-medium">{feedback.correctedSentence}</p>
+        </div>
+      )}
+
+      {/* Naturalness score */}
+      <div>
+        <div className="flex justify-between text-xs font-bold text-gray-400 uppercase mb-1">
+          <span>Naturalness (স্বাভাবিকতা)</span>
+          <span>{feedback.naturalness}/100</span>
+        </div>
+        <div className="w-full h-2 bg-gray-200 dark:bg-slate-700 rounded-full">
+          <div className={`h-2 rounded-full transition-all ${naturalnessColor}`} style={{ width: `${feedback.naturalness}%` }}></div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SentenceFeedbackCard;
@@ -1,28 +1,53 @@
 
-import React, { useState } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { TranslateIcon, SwitchIcon, CopyIcon, SpeakerIcon, XIcon } from './Icons';
-import { translateText } from '../services/geminiService';
+import { translateText, isAbortError, isDailyCapError, isInputRejectedError, isOutputCheckError, INPUT_LIMITS } from '../services/geminiService';
 
 const Translator: React.FC = () => {
   const [inputText, setInputText] = useState('');
   const [outputText, setOutputText] = useState('');
   const [direction, setDirection] = useState<'bn-en' | 'en-bn'>('bn-en');
   const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const abortRef = useRef<AbortController | null>(null);
+  const isTooLong = inputText.length > INPUT_LIMITS.translate;
+
+  // Cancel a pending translation when leaving the page
+  useEffect(() => () => abortRef.current?.abort(), []);
 
   const handleTranslate = async () => {
-    if (!inputText.trim()) return;
+    if (!inputText.trim() || isTooLong) return;
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+
     setLoading(true);
     setOutputText('');
+    setError('');
     try {
-      const result = await translateText(inputText, direction);
+      const result = await translateText(inputText, direction, controller.signal);
       setOutputText(result);
-    } catch (error) {
-      setOutputText('Failed to translate.');
+    } catch (err) {
+      if (isAbortError(err)) return;
+      if (isInputRejectedError(err) || isDailyCapError(err)) {
+        setError(err.message);
+      } else if (isOutputCheckError(err)) {
+        setError('অনুবাদটি ঠিকমতো হয়নি। লেখাটি একটু বদলে আবার চেষ্টা করুন।');
+      } else {
+        setError('ত্রুটি হয়েছে। আবার চেষ্টা করুন। (Failed to translate)');
+      }
     } finally {
-      setLoading(false);
+      if (abortRef.current === controller) setLoading(false);
     }
   };
 
+  const cancelPending = () => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setLoading(false);
+    setError('');
+  };
+
   const handleCopy = (text: string) => {
     if (!text) return;
     navigator.clipboard.writeText(text);
@@ -42,12 +67,14 @@ const Translator: React.FC = () => {
   };
 
   const handleSwitch = () => {
+    cancelPending();
     setDirection(prev => prev === 'bn-en' ? 'en-bn' : 'bn-en');
     setInputText(outputText);
     setOutputText(inputText);
   };
 
   const clearInput = () => {
+      cancelPending();
       setInputText('');
       setOutputText('');
   };
@@ -94,12 +121,20 @@ const Translator: React.FC = () => {
                      <XIcon className="w-5 h-5" />
                  </button>
              )}
+             <div className={`text-right text-xs mt-1 ${isTooLong ? 'text-red-500 font-bold' : 'text-gray-400'}`}>
+                 {inputText.length}/{INPUT_LIMITS.translate}
+             </div>
+             {isTooLong && (
+                 <p className="text-sm text-red-500 bengali-text">
+                     লেখাটি অনেক বড়। একবারে সর্বোচ্চ {INPUT_LIMITS.translate} অক্ষর অনুবাদ করা যায়।
+                 </p>
+             )}
         </div>
 
         {/* Action Button */}
         <button
             onClick={handleTranslate}
-            disabled={loading || !inputText.trim()}
+            disabled={loading || !inputText.trim() || isTooLong}
             className="w-full py-3 mb-6 bg-purple-500 hover:bg-purple-600 disabled:opacity-50 disabled:cursor-not-allowed text-white font-bold rounded-xl shadow-md transition-all active:scale-[0.98]"
         >
             {loading ? 'Translating...' : 'Translate'}
@@ -131,6 +166,12 @@ const Translator: React.FC = () => {
              )}
         </div>
 
+        {error && (
+          <div className="mt-4 p-4 bg-red-50 dark:bg-red-900/30 text-red-600 dark:text-red-300 rounded-xl text-center text-sm border border-red-100 dark:border-red-800 bengali-text">
+            {error}
+          </div>
+        )}
+
       </div>
     </div>
   );
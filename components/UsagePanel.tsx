@@ -0,0 +1,113 @@
+import React, { useState } from 'react';
+import { SlidersIcon } from './Icons';
+import { AIFeature } from '../services/aiProvider';
+import { AI_FEATURE_LABELS } from '../constants';
+import { clearUsageLog, getUsageSummary, setDailyCap, UsageSummary } from '../services/usageLog';
+
+const UsagePanel: React.FC = () => {
+  const [summary, setSummary] = useState<UsageSummary>(() => getUsageSummary());
+  const [period, setPeriod] = useState<'today' | 'week'>('today');
+  const [capInput, setCapInput] = useState(summary.dailyCap ? String(summary.dailyCap) : '');
+
+  const refresh = () => setSummary(getUsageSummary());
+
+  const handleSaveCap = () => {
+    const cap = parseInt(capInput, 10);
+    setDailyCap(Number.isFinite(cap) && cap > 0 ? cap : null);
+    if (!(cap > 0)) setCapInput('');
+    refresh();
+  };
+
+  const handleClear = () => {
+    if (!confirm("Clear the usage history? (ব্যবহারের হিসাব মুছে ফেলবেন?)")) return;
+    clearUsageLog();
+    refresh();
+  };
+
+  const rows = summary[period];
+  const features = Object.keys(AI_FEATURE_LABELS) as AIFeature[];
+  const capPercent = summary.dailyCap ? Math.min(100, (summary.callsToday / summary.dailyCap) * 100) : 0;
+
+  return (
+    <div className="space-y-4 mb-8">
+      <h4 className="text-sm font-bold text-gray-400 dark:text-gray-500 uppercase flex items-center gap-2">
+        <SlidersIcon className="w-4 h-4" />
+        AI Usage (ব্যবহার)
+      </h4>
+
+      <div className="flex bg-gray-100 dark:bg-slate-700 rounded-lg p-1 text-xs font-bold">
+        {(['today', 'week'] as const).map(p => (
+          <button
+            key={p}
+            onClick={() => { setPeriod(p); refresh(); }}
+            className={`flex-1 py-1.5 rounded-md transition-all ${period === p ? 'bg-white dark:bg-slate-600 shadow-sm text-blue-500 dark:text-blue-400' : 'text-gray-400'}`}
+          >
+            {p === 'today' ? 'Today (আজ)' : 'Last 7 days (সপ্তাহ)'}
+          </button>
+        ))}
+      </div>
+
+      <div className="rounded-xl border border-gray-100 dark:border-slate-700 overflow-hidden">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-50 dark:bg-slate-750 text-xs text-gray-400 uppercase">
+            <tr>
+              <th className="text-left p-2">Feature</th>
+              <th className="text-right p-2">Calls</th>
+              <th className="text-right p-2">Tokens</th>
+              <th className="text-right p-2">Avg</th>
+            </tr>
+          </thead>
+          <tbody className="text-slate-700 dark:text-slate-200">
+            {features.map(feature => (
+              <tr key={feature} className="border-t border-gray-100 dark:border-slate-700">
+                <td className="p-2">{AI_FEATURE_LABELS[feature]}</td>
+                <td className="p-2 text-right">
+                  {rows[feature].calls}
+                  {rows[feature].failed > 0 && <span className="text-red-400 text-xs"> ({rows[feature].failed} failed)</span>}
+                </td>
+                <td className="p-2 text-right">{rows[feature].tokens.toLocaleString()}</td>
+                <td className="p-2 text-right text-gray-400">{rows[feature].calls ? `${(rows[feature].avgLatencyMs / 1000).toFixed(1)}s` : '-'}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Daily cap */}
+      <div className="p-3 rounded-xl bg-gray-50 dark:bg-slate-750 border border-gray-100 dark:border-slate-700 space-y-2">
+        <div className="flex justify-between text-xs font-bold text-gray-500 dark:text-gray-400">
+          <span>Daily limit (দৈনিক সীমা)</span>
+          <span>{summary.callsToday} / {summary.dailyCap ?? '∞'} calls today</span>
+        </div>
+        {summary.dailyCap && (
+          <div className="w-full h-1.5 bg-gray-200 dark:bg-slate-600 rounded-full">
+            <div
+              className={`h-1.5 rounded-full transition-all ${capPercent >= 100 ? 'bg-red-500' : capPercent >= 80 ? 'bg-yellow-400' : 'bg-blue-500'}`}
+              style={{ width: `${capPercent}%` }}
+            ></div>
+          </div>
+        )}
+        <div className="flex gap-2">
+          <input
+            type="number"
+            min={1}
+            value={capInput}
+            onChange={(e) => setCapInput(e.target.value)}
+            placeholder="No limit"
+            className="flex-1 min-w-0 border border-gray-300 dark:border-slate-600 rounded-lg px-3 py-1 text-sm bg-white dark:bg-slate-700 text-slate-800 dark:text-white"
+          />
+          <button onClick={handleSaveCap} className="bg-blue-500 text-white px-3 py-1 rounded-lg text-sm font-bold">Save</button>
+        </div>
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          When the limit is reached, saved and offline lessons are used until tomorrow. (সীমা শেষ হলে সংরক্ষিত পাঠ দেখানো হবে)
+        </p>
+      </div>
+
+      <button onClick={handleClear} className="text-xs font-bold text-gray-400 hover:text-red-500 transition-colors">
+        Clear usage history
+      </button>
+    </div>
+  );
+};
+
+export default UsagePanel;
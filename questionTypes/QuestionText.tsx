@@ -0,0 +1,72 @@
+import React, { useEffect } from 'react';
+import { SpeakerIcon } from '../components/Icons';
+import { QuestionTextProps } from './types';
+import { speakText } from './helpers';
+
+// Question text as-is (Bengali prompts, word builder hints)
+export const PlainQuestionText: React.FC<QuestionTextProps<unknown>> = ({ question }) => (
+  <>{question.questionText}</>
+);
+
+// English question text where every word can be tapped to open the mini dictionary
+export const ClickableQuestionText: React.FC<QuestionTextProps<unknown>> = ({ question, onWordClick }) => {
+  const lines = question.questionText.split('\n');
+  return (
+    <div className="whitespace-pre-wrap">
+       {lines.map((line, lineIdx) => (
+         <div key={lineIdx} className={lineIdx > 0 ? "mt-2" : ""}>
+           {line.split(' ').map((word, idx) => (
+              <span 
+                key={`${lineIdx}-${idx}`} 
+                onClick={(e) => {
+                    e.stopPropagation();
+                    onWordClick(word);
+                }}
+                className="cursor-pointer hover:bg-blue-100 dark:hover:bg-blue-900 hover:text-blue-600 dark:hover:text-blue-300 rounded px-1 transition-colors border-b border-transparent hover:border-blue-300 border-dotted"
+              >
+                  {word}{' '}
+              </span>
+           ))}
+         </div>
+       ))}
+    </div>
+  );
+};
+
+// English sentence that is only heard (normal and slow playback), revealed once the answer is checked
+export const AudioOnlyQuestionText: React.FC<QuestionTextProps<unknown>> = (props) => {
+  const { question, status } = props;
+
+  // Play once when the question appears
+  useEffect(() => {
+    speakText(question.questionText);
+  }, [question.id, question.questionText]);
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="flex gap-4">
+        <button
+          onClick={() => speakText(question.questionText, 'en-US', 1)}
+          className="flex flex-col items-center justify-center w-24 h-24 bg-blue-500 hover:bg-blue-600 text-white rounded-2xl shadow-lg transition-transform transform active:scale-95"
+        >
+          <SpeakerIcon className="w-8 h-8 mb-2" />
+          <span className="text-xs font-bold uppercase">Normal</span>
+        </button>
+
+        <button
+          onClick={() => speakText(question.questionText, 'en-US', 0.5)}
+          className="flex flex-col items-center justify-center w-24 h-24 bg-teal-500 hover:bg-teal-600 text-white rounded-2xl shadow-lg transition-transform transform active:scale-95"
+        >
+          <SpeakerIcon className="w-8 h-8 mb-2" />
+          <span className="text-xs font-bold uppercase">Slow</span>
+        </button>
+      </div>
+
+      {status === 'idle' ? (
+        <p className="text-sm font-medium text-gray-400">বাক্যটি শুনুন, লেখা দেখানো হবে না। (Listen — the sentence is hidden.)</p>
+      ) : (
+        <ClickableQuestionText {...props} />
+      )}
+    </div>
+  );
+};
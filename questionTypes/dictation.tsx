@@ -0,0 +1,92 @@
+import React from 'react';
+import { Question, QuestionType } from '../types';
+import { AnswerInputProps, AnswerResult, QuestionCheck, QuestionTypePlugin } from './types';
+import { AudioOnlyQuestionText } from './QuestionText';
+import { CORRECT_ANSWER_XP, diffWords, isString, WORD_DIFF_CLASSES, WordDiffKind, wordAccuracy } from './helpers';
+
+// Hear an English sentence and type it. The typed text is compared word by
+// word (same normalisation as pronunciation feedback) and XP follows accuracy.
+
+const DICTATION_MAX_LENGTH = 300;
+
+const validateDictation = (q: Question): QuestionCheck => {
+  const repairs: string[] = [];
+  const target = q.correctAnswer.trim() || q.questionText.trim();
+
+  if (!/[a-zA-Z]/.test(target) || /[\u0980-\u09FF]/.test(target)) {
+    return { question: q, repairs, error: 'dictation target is not an English sentence' };
+  }
+  if (q.questionText !== target || q.correctAnswer !== target || q.options.length !== 1 || q.options[0] !== target) {
+    repairs.push('set dictation text and options to the target sentence');
+  }
+
+  return { question: { ...q, questionText: target, correctAnswer: target, options: [target] }, repairs };
+};
+
+const checkDictation = (question: Question, typed: string): AnswerResult => {
+  const diff = diffWords(question.correctAnswer, typed);
+  const count = (kind: WordDiffKind) => diff.filter(d => d.kind === kind).length;
+  const correct = count('ok');
+  const total = correct + count('close') + count('missing');
+
+  if (correct === total && count('extra') === 0) {
+    return { isCorrect: true, feedback: "একদম ঠিক লিখেছেন! (Perfect dictation!)" };
+  }
+
+  const parts = [
+    `${total}টির মধ্যে ${correct}টি শব্দ ঠিক।`,
+    count('close') ? `বানান ভুল: ${count('close')}টি।` : '',
+    count('missing') ? `বাদ পড়েছে: ${count('missing')}টি।` : '',
+    count('extra') ? `অতিরিক্ত: ${count('extra')}টি।` : '',
+  ];
+  return { isCorrect: false, feedback: parts.filter(Boolean).join(' ') };
+};
+
+const DictationInput: React.FC<AnswerInputProps<string>> = ({ question, answer, onAnswer, status }) => {
+  if (status !== 'idle') {
+    const diff = diffWords(question.correctAnswer, answer ?? '');
+    return (
+      <div className="flex flex-col gap-3">
+        <div className="flex flex-wrap gap-2 p-4 rounded-xl bg-gray-50 dark:bg-slate-800 border border-gray-200 dark:border-slate-700">
+          {diff.map((d, idx) => (
+            <span key={idx} className={`px-2 py-1 rounded-lg font-medium ${WORD_DIFF_CLASSES[d.kind]}`}>
+              {d.kind === 'close' ? <>{d.actual} → <b>{d.word}</b></> : d.word}
+            </span>
+          ))}
+        </div>
+        <p className="text-xs text-gray-500 dark:text-gray-400 bengali-text">
+          সবুজ = ঠিক, হলুদ = বানান ভুল, লাল = বাদ পড়েছে, ধূসর = অতিরিক্ত
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <textarea
+      value={answer ?? ''}
+      onChange={(e) => onAnswer(e.target.value.trim() ? e.target.value : null)}
+      maxLength={DICTATION_MAX_LENGTH}
+      rows={3}
+      autoCapitalize="none"
+      spellCheck={false}
+      placeholder="Type what you hear..."
+      className="w-full p-4 rounded-xl border-2 border-gray-200 dark:border-slate-700 bg-white dark:bg-slate-800 text-lg text-slate-800 dark:text-white focus:border-blue-500 focus:outline-none"
+    />
+  );
+};
+
+export const dictation: QuestionTypePlugin<string> = {
+  type: QuestionType.Dictation,
+  instruction: "যা শুনছেন তা লিখুন (Type what you hear)",
+  questionLanguage: 'en-US',
+  hasOwnAudio: true,
+  validate: validateDictation,
+  isAnswer: isString,
+  QuestionText: AudioOnlyQuestionText,
+  AnswerInput: DictationInput,
+  isAnswerReady: (answer) => !!answer && !!answer.trim(),
+  checkAnswer: checkDictation,
+  // Partial credit by word accuracy
+  score: (question, _result, typed) =>
+    Math.round(CORRECT_ANSWER_XP * wordAccuracy(diffWords(question.correctAnswer, typed))),
+};
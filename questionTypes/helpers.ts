@@ -0,0 +1,161 @@
+import { AnswerResult } from './types';
+
+export const CORRECT_ANSWER_XP = 10;
+
+export const scoreCorrectAnswer = (_question: unknown, result: AnswerResult): number =>
+  result.isCorrect ? CORRECT_ANSWER_XP : 0;
+
+export const isString = (value: unknown): value is string => typeof value === 'string';
+
+// Tile answers: indices into question.options
+export const isIndexList = (value: unknown): value is number[] =>
+  Array.isArray(value) && value.every(Number.isInteger);
+
+// XP a hint costs up front
+export const HINT_COST = 2;
+
+// Each hint halves what the question is worth
+export const reduceForHints = (points: number, hintsUsed: number): number =>
+  Math.floor(points / 2 ** hintsUsed);
+
+export const shuffle = <T,>(items: T[]): T[] => {
+  const copy = [...items];
+  for (let i = copy.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [copy[i], copy[j]] = [copy[j], copy[i]];
+  }
+  return copy;
+};
+
+export const speakText = (text: string, lang: string = 'en-US', rate: number = 1) => {
+  window.speechSynthesis.cancel();
+  const utterance = new SpeechSynthesisUtterance(text);
+  utterance.lang = lang;
+  utterance.rate = rate;
+  window.speechSynthesis.speak(utterance);
+};
+
+// Everything but letters (with Bengali vowel signs), digits, spaces and apostrophes:
+// punctuation and quotes are ignored when comparing typed, tapped or spoken words
+const PUNCTUATION = /[^\p{L}\p{M}\p{N}\s']/gu;
+
+export const stripPunctuation = (s: string) => s.replace(PUNCTUATION, "");
+
+export const normalizeText = (s: string) =>
+  stripPunctuation(s.toLowerCase().replace(/[‘’]/g, "'")).replace(/\s+/g, " ").trim();
+
+// Levenshtein distance implementation for calculating similarity
+export function levenshtein(a: string, b: string): number {
+  const matrix = [];
+  for (let i = 0; i <= b.length; i++) {
+    matrix[i] = [i];
+  }
+  for (let j = 0; j <= a.length; j++) {
+    matrix[0][j] = j;
+  }
+  for (let i = 1; i <= b.length; i++) {
+    for (let j = 1; j <= a.length; j++) {
+      if (b.charAt(i - 1) === a.charAt(j - 1)) {
+        matrix[i][j] = matrix[i - 1][j - 1];
+      } else {
+        matrix[i][j] = Math.min(
+          matrix[i - 1][j - 1] + 1,
+          Math.min(matrix[i][j - 1] + 1, matrix[i - 1][j] + 1)
+        );
+      }
+    }
+  }
+  return matrix[b.length][a.length];
+}
+
+export type WordOp = 'match' | 'substitution' | 'insertion' | 'deletion';
+
+// One step of a word alignment; insertion = extra actual word, deletion = missing target word
+export interface AlignedWord {
+  op: WordOp;
+  target?: string;
+  actual?: string;
+}
+
+// Swapping similar words is cheaper, so "reed" lines up with "read" rather than a neighbour
+const substitutionCost = (a: string, b: string) => a === b ? 0 : isNearMiss(a, b) ? 0.5 : 1;
+
+// Word-level edit-distance alignment of what was said/typed against the target
+export const alignWords = (target: string[], actual: string[]): AlignedWord[] => {
+  const rows = target.length + 1;
+  const cols = actual.length + 1;
+  const cost: number[][] = Array.from({ length: rows }, (_, i) => Array.from({ length: cols }, (_, j) => (i === 0 ? j : j === 0 ? i : 0)));
+  for (let i = 1; i < rows; i++) {
+    for (let j = 1; j < cols; j++) {
+      cost[i][j] = Math.min(cost[i - 1][j - 1] + substitutionCost(target[i - 1], actual[j - 1]), cost[i - 1][j] + 1, cost[i][j - 1] + 1);
+    }
+  }
+
+  const steps: AlignedWord[] = [];
+  let i = target.length;
+  let j = actual.length;
+  while (i > 0 || j > 0) {
+    if (i > 0 && j > 0 && cost[i][j] === cost[i - 1][j - 1] + substitutionCost(target[i - 1], actual[j - 1])) {
+      steps.push({ op: target[i - 1] === actual[j - 1] ? 'match' : 'substitution', target: target[i - 1], actual: actual[j - 1] });
+      i--; j--;
+    } else if (i > 0 && cost[i][j] === cost[i - 1][j] + 1) {
+      steps.push({ op: 'deletion', target: target[i - 1] });
+      i--;
+    } else {
+      steps.push({ op: 'insertion', actual: actual[j - 1] });
+      j--;
+    }
+  }
+  return steps.reverse();
+};
+
+// Words this short have to match exactly: one edit turns in/on, he/we or cat/bat into another word
+const MIN_NEAR_MISS_LENGTH = 4;
+
+// Close enough to be the same word with a spelling (or recognition) slip
+export const isNearMiss = (target: string, actual: string) =>
+  target.length >= MIN_NEAR_MISS_LENGTH && levenshtein(target, actual) <= Math.max(1, Math.floor(target.length / 3));
+
+export type WordDiffKind = 'ok' | 'close' | 'missing' | 'extra';
+
+export interface WordDiff {
+  kind: WordDiffKind;
+  word: string; // Target word, or the actual word for 'extra'
+  actual?: string; // What was typed/said for 'close'
+}
+
+const toWords = (text: string) => normalizeText(text).split(/\s+/).filter(Boolean);
+
+// Target vs typed/recognised text, word by word. Near misses count as 'close';
+// any other substitution is a missing word plus an extra one.
+export const diffWords = (target: string, actual: string): WordDiff[] =>
+  alignWords(toWords(target), toWords(actual)).flatMap((step): WordDiff[] => {
+    switch (step.op) {
+      case 'match':
+        return [{ kind: 'ok', word: step.target! }];
+      case 'deletion':
+        return [{ kind: 'missing', word: step.target! }];
+      case 'insertion':
+        return [{ kind: 'extra', word: step.actual! }];
+      case 'substitution':
+        return isNearMiss(step.target!, step.actual!)
+          ? [{ kind: 'close', word: step.target!, actual: step.actual }]
+          : [{ kind: 'missing', word: step.target! }, { kind: 'extra', word: step.actual! }];
+    }
+  });
+
+// Share of target words got right (close ones count half); extra words cancel out correct ones
+export const wordAccuracy = (diff: WordDiff[]) => {
+  const targetCount = diff.filter(d => d.kind !== 'extra').length;
+  if (targetCount === 0) return 0;
+  const earned = diff.reduce((sum, d) => sum + (d.kind === 'ok' ? 1 : d.kind === 'close' ? 0.5 : 0), 0);
+  const extra = diff.filter(d => d.kind === 'extra').length;
+  return Math.max(0, (earned - extra * 0.5) / targetCount);
+};
+
+export const WORD_DIFF_CLASSES: Record<WordDiffKind, string> = {
+  ok: 'bg-green-100 text-green-700 dark:bg-green-900/50 dark:text-green-300',
+  close: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/50 dark:text-yellow-300',
+  missing: 'bg-red-100 text-red-700 dark:bg-red-900/50 dark:text-red-300 line-through',
+  extra: 'bg-gray-200 text-gray-500 dark:bg-slate-700 dark:text-slate-400 italic',
+};
@@ -0,0 +1,63 @@
+import React from 'react';
+import { QuestionType } from '../types';
+import { QuestionTypePlugin } from './types';
+import { fillBlank } from './multipleChoice';
+import { translateToBengali, translateToEnglish } from './translation';
+import { listening } from './listening';
+import { sentenceBuilder } from './sentenceBuilder';
+import { matchPairs } from './matchPairs';
+import { dictation } from './dictation';
+import { pronunciation } from './pronunciation';
+import { wordBuilder } from './wordBuilder';
+
+// The one place question types are registered. To add an exercise, add its
+// QuestionType value, write a plugin module and list it here; the validator and
+// LessonRunner read from this registry. How the model should write the new type
+// goes in QUESTION_TYPE_PROMPTS (services/promptTemplates.js), which the API
+// proxy shares.
+
+export type { AnswerInputProps, AnswerResult, AnswerStatus, QuestionCheck, QuestionHint, QuestionServices, QuestionTextProps, QuestionTypePlugin } from './types';
+export { reduceForHints } from './helpers';
+
+// The runner keeps the answer as unknown (it is also restored from saved
+// snapshots), so each plugin's answer is checked with its isAnswer before the
+// plugin sees it. A value of the wrong shape counts as no answer.
+const register = <A,>(plugin: QuestionTypePlugin<A>): QuestionTypePlugin => {
+  const { QuestionText, AnswerInput, hint } = plugin;
+  const narrow = (answer: unknown): A | null => (plugin.isAnswer(answer) ? answer : null);
+  const expect = (answer: unknown): A => {
+    if (!plugin.isAnswer(answer)) throw new Error(`Answer does not fit question type ${plugin.type}`);
+    return answer;
+  };
+
+  return {
+    ...plugin,
+    isAnswer: (value): value is unknown => plugin.isAnswer(value),
+    QuestionText: (props) => <QuestionText {...props} answer={narrow(props.answer)} />,
+    AnswerInput: (props) => <AnswerInput {...props} answer={narrow(props.answer)} />,
+    hint: hint && {
+      ...hint,
+      isAvailable: hint.isAvailable && ((question, answer) => hint.isAvailable!(question, narrow(answer))),
+      apply: hint.apply && ((question, answer) => hint.apply!(question, narrow(answer))),
+    },
+    isAnswerReady: (answer, question) => plugin.isAnswerReady(narrow(answer), question),
+    checkAnswer: (question, answer, services, signal) => plugin.checkAnswer(question, expect(answer), services, signal),
+    score: (question, result, answer) => plugin.score(question, result, expect(answer)),
+  };
+};
+
+export const QUESTION_TYPES: Record<QuestionType, QuestionTypePlugin> = {
+  [QuestionType.TranslateToEnglish]: register(translateToEnglish),
+  [QuestionType.TranslateToBengali]: register(translateToBengali),
+  [QuestionType.FillBlank]: register(fillBlank),
+  [QuestionType.Pronunciation]: register(pronunciation),
+  [QuestionType.WordBuilder]: register(wordBuilder),
+  [QuestionType.Listening]: register(listening),
+  [QuestionType.SentenceBuilder]: register(sentenceBuilder),
+  [QuestionType.MatchPairs]: register(matchPairs),
+  [QuestionType.Dictation]: register(dictation),
+};
+
+// Undefined for unknown types (e.g. from malformed model output)
+export const getQuestionType = (type: string): QuestionTypePlugin | undefined =>
+  QUESTION_TYPES[type as QuestionType];
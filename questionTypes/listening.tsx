@@ -0,0 +1,30 @@
+import { Question, QuestionType } from '../types';
+import { QuestionCheck, QuestionTypePlugin } from './types';
+import { AudioOnlyQuestionText } from './QuestionText';
+import { eliminateOptionsHint, OptionList, validateMultipleChoice } from './multipleChoice';
+import { isString, scoreCorrectAnswer } from './helpers';
+
+// Hear a hidden English sentence and pick its Bengali meaning (or the exact
+// sentence) from four options. The sentence is revealed once the answer is checked.
+
+const validateListening = (q: Question): QuestionCheck => {
+  if (!/[a-zA-Z]/.test(q.questionText) || /[\u0980-\u09FF]/.test(q.questionText)) {
+    return { question: q, repairs: [], error: 'listening questionText is not an English sentence' };
+  }
+  return validateMultipleChoice(q);
+};
+
+export const listening: QuestionTypePlugin<string> = {
+  type: QuestionType.Listening,
+  instruction: "শুনে সঠিক উত্তর বেছে নিন (Listen and choose)",
+  questionLanguage: 'en-US',
+  hasOwnAudio: true,
+  validate: validateListening,
+  isAnswer: isString,
+  QuestionText: AudioOnlyQuestionText,
+  AnswerInput: OptionList,
+  isAnswerReady: (answer) => !!answer,
+  checkAnswer: (question, answer) => ({ isCorrect: answer === question.correctAnswer }),
+  score: scoreCorrectAnswer,
+  hint: eliminateOptionsHint,
+};
@@ -0,0 +1,162 @@
+import React, { useState } from 'react';
+import { MatchPair, Question, QuestionType } from '../types';
+import { AnswerInputProps, AnswerResult, QuestionCheck, QuestionTypePlugin } from './types';
+import { PlainQuestionText } from './QuestionText';
+import { CORRECT_ANSWER_XP, isIndexList, shuffle } from './helpers';
+
+// Tap an English word, then its Bengali meaning. The truth lives in
+// question.pairs; options is the Bengali column in display order. Correct
+// pairs lock, each wrong pairing costs a heart straight away.
+
+const PAIR_COUNT = 5;
+const MIN_PAIRS = 3;
+
+interface MatchAnswer {
+  matched: number[]; // Indices into question.pairs
+  mistakes: number;
+}
+
+const isMatchAnswer = (value: unknown): value is MatchAnswer =>
+  !!value && isIndexList((value as MatchAnswer).matched) && typeof (value as MatchAnswer).mistakes === 'number';
+
+const validateMatchPairs = (q: Question): QuestionCheck => {
+  const repairs: string[] = [];
+  const seenEn = new Set<string>();
+  const seenBn = new Set<string>();
+  const pairs: MatchPair[] = [];
+
+  for (const p of q.pairs ?? []) {
+    const en = p.en.trim();
+    const bn = p.bn.trim();
+    if (!en || !bn || seenEn.has(en.toLowerCase()) || seenBn.has(bn)) continue;
+    seenEn.add(en.toLowerCase());
+    seenBn.add(bn);
+    pairs.push({ en, bn });
+  }
+
+  if (pairs.length < MIN_PAIRS) {
+    return { question: q, repairs, error: 'match_pairs needs at least 3 distinct pairs' };
+  }
+  if (pairs.length !== (q.pairs ?? []).length) {
+    repairs.push('dropped empty or duplicate pairs');
+  }
+  if (pairs.length > PAIR_COUNT) {
+    pairs.length = PAIR_COUNT;
+    repairs.push(`kept the first ${PAIR_COUNT} pairs`);
+  }
+
+  let options = q.options.map(o => o.trim());
+  const meanings = pairs.map(p => p.bn);
+  if (options.length !== meanings.length || [...options].sort().join('|') !== [...meanings].sort().join('|')) {
+    options = shuffle(meanings);
+    repairs.push('rebuilt the Bengali column from pairs');
+  }
+
+  // A readable answer for explanations and reviews
+  const correctAnswer = pairs.map(p => `${p.en} = ${p.bn}`).join(', ');
+
+  return { question: { ...q, pairs, options, correctAnswer }, repairs };
+};
+
+const PairBoard: React.FC<AnswerInputProps<MatchAnswer>> = ({ question, answer, onAnswer, onMistake, status }) => {
+  const pairs = question.pairs ?? [];
+  const matched = answer?.matched ?? [];
+  const [selectedEn, setSelectedEn] = useState<number | null>(null);
+  const [selectedBn, setSelectedBn] = useState<number | null>(null);
+  const [wrongPair, setWrongPair] = useState<[number, number] | null>(null);
+
+  const tryPair = (en: number | null, bn: number | null) => {
+    if (en === null || bn === null) {
+      setSelectedEn(en);
+      setSelectedBn(bn);
+      setWrongPair(null);
+      return;
+    }
+
+    setSelectedEn(null);
+    setSelectedBn(null);
+    if (pairs[en].bn === question.options[bn]) {
+      setWrongPair(null);
+      onAnswer({ matched: [...matched, en], mistakes: answer?.mistakes ?? 0 });
+    } else {
+      setWrongPair([en, bn]);
+      onAnswer({ matched, mistakes: (answer?.mistakes ?? 0) + 1 });
+      onMistake();
+    }
+  };
+
+  const isBnMatched = (bn: number) => matched.some(en => pairs[en].bn === question.options[bn]);
+
+  const getTileClass = (isMatched: boolean, isSelected: boolean, isWrong: boolean) => {
+    const base = "p-3 rounded-xl border-2 text-left transition-all ";
+    if (isMatched) return base + "bg-green-100 border-green-500 text-green-700 dark:bg-green-900/50 dark:text-green-300 opacity-70 cursor-default";
+    if (isWrong) return base + "bg-red-100 border-red-500 text-red-700 dark:bg-red-900/50 dark:text-red-300";
+    if (isSelected) return base + "bg-blue-100 border-blue-500 text-blue-700 dark:bg-blue-900 dark:border-blue-500 dark:text-blue-300 shadow-md";
+    return base + "bg-white border-gray-200 hover:bg-gray-50 text-slate-700 dark:bg-slate-800 dark:border-slate-700 dark:hover:bg-slate-750 dark:text-slate-200";
+  };
+
+  return (
+    <div className="grid grid-cols-2 gap-3">
+      <div className="flex flex-col gap-3">
+        {pairs.map((pair, en) => {
+          const isMatched = matched.includes(en);
+          return (
+            <button
+              key={`en-${en}`}
+              onClick={() => tryPair(en, selectedBn)}
+              disabled={isMatched || status !== 'idle'}
+              className={getTileClass(isMatched, selectedEn === en, wrongPair?.[0] === en)}
+            >
+              <span className="text-lg font-medium">{pair.en}</span>
+            </button>
+          );
+        })}
+      </div>
+      <div className="flex flex-col gap-3">
+        {question.options.map((meaning, bn) => {
+          const isMatched = isBnMatched(bn);
+          return (
+            <button
+              key={`bn-${bn}`}
+              onClick={() => tryPair(selectedEn, bn)}
+              disabled={isMatched || status !== 'idle'}
+              className={getTileClass(isMatched, selectedBn === bn, wrongPair?.[1] === bn)}
+            >
+              <span className="bengali-text text-lg">{meaning}</span>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+// Every pair is matched by the time the answer can be checked. Only a board
+// without wrong attempts is correct, so the others come back in reviews;
+// those attempts were already charged as hearts and reduce the XP.
+const checkMatchPairs = (_question: Question, answer: MatchAnswer): AnswerResult => ({
+  isCorrect: answer.mistakes === 0,
+  mistakesCharged: true,
+  feedback: answer.mistakes === 0
+    ? "সবগুলো জোড়া প্রথমবারেই মিলেছে! (All pairs matched first time!)"
+    : `সব জোড়া মিলেছে, ${answer.mistakes}টি ভুল চেষ্টা সহ। (All matched with ${answer.mistakes} wrong attempt${answer.mistakes > 1 ? 's' : ''}.)`,
+});
+
+// Partial credit: the full reward less an equal share for each wrong attempt
+const scoreMatchPairs = (question: Question, _result: AnswerResult, answer: MatchAnswer): number => {
+  const total = question.pairs?.length || PAIR_COUNT;
+  return Math.max(0, Math.round(CORRECT_ANSWER_XP * (total - answer.mistakes) / total));
+};
+
+export const matchPairs: QuestionTypePlugin<MatchAnswer> = {
+  type: QuestionType.MatchPairs,
+  instruction: "জোড়া মেলান (Match the pairs)",
+  questionLanguage: 'bn-IN',
+  validate: validateMatchPairs,
+  isAnswer: isMatchAnswer,
+  QuestionText: PlainQuestionText,
+  AnswerInput: PairBoard,
+  isAnswerReady: (answer, question) => !!answer && answer.matched.length === (question.pairs ?? []).length,
+  checkAnswer: checkMatchPairs,
+  score: scoreMatchPairs,
+};
@@ -0,0 +1,173 @@
+import React, { useEffect, useState } from 'react';
+import { Question, QuestionType } from '../types';
+import { isAbortError } from '../services/requestScheduler';
+import { AnswerInputProps, AnswerStatus, QuestionCheck, QuestionHint, QuestionTextProps, QuestionTypePlugin } from './types';
+import { HINT_COST, isString, scoreCorrectAnswer, shuffle } from './helpers';
+
+// Pick one of four options. Shared by the translate types, listening and fill-in-the-blank.
+
+const MULTIPLE_CHOICE_OPTIONS = 4;
+
+export const validateMultipleChoice = (q: Question): QuestionCheck => {
+  const repairs: string[] = [];
+  let options = [...new Set(q.options.map(o => o.trim()).filter(Boolean))];
+  const answer = q.correctAnswer.trim();
+
+  if (!answer) {
+    return { question: q, repairs, error: 'missing correctAnswer' };
+  }
+
+  if (!options.includes(answer)) {
+    // Replace a random distractor (or append when there are too few options)
+    if (options.length >= MULTIPLE_CHOICE_OPTIONS) {
+      options[Math.floor(Math.random() * options.length)] = answer;
+    } else {
+      options = shuffle([...options, answer]);
+    }
+    repairs.push('inserted correctAnswer into options');
+  }
+
+  if (options.length < 2) {
+    return { question: q, repairs, error: 'not enough options' };
+  }
+
+  return { question: { ...q, correctAnswer: answer, options }, repairs };
+};
+
+const HINT_ELIMINATED = 2;
+
+// The wrong options the hint takes away. Options are already in random order,
+// so the first wrong ones will do, and a resumed lesson removes the same ones.
+export const eliminatedOptions = (question: Question): string[] => {
+  const wrong = question.options.filter(o => o !== question.correctAnswer);
+  return wrong.length > HINT_ELIMINATED ? wrong.slice(0, HINT_ELIMINATED) : [];
+};
+
+export const eliminateOptionsHint: QuestionHint<string> = {
+  label: "দুটি ভুল উত্তর সরান (Remove 2 wrong)",
+  cost: HINT_COST,
+  maxUses: 1,
+  isAvailable: (question) => eliminatedOptions(question).length > 0,
+  // Keep the selection only if it is still on the list
+  apply: (question, answer) =>
+    answer !== null && question.options.includes(answer) && !eliminatedOptions(question).includes(answer) ? answer : null,
+};
+
+const getOptionClass = (option: string, selected: string | null, correct: string, status: AnswerStatus, isEliminated: boolean) => {
+  const base = "p-4 rounded-xl border-2 text-left transition-all relative ";
+  const isSelected = selected === option;
+  const isCorrectAnswer = option === correct;
+
+  if (status === 'idle') {
+      if (isEliminated) return base + "bg-gray-100 border-gray-200 text-gray-400 line-through opacity-50 cursor-not-allowed dark:bg-slate-800 dark:border-slate-700";
+      if (isSelected) return base + "bg-blue-100 border-blue-500 text-blue-700 dark:bg-blue-900 dark:border-blue-500 dark:text-blue-300 shadow-md transform scale-[1.02]";
+      return base + "bg-white border-gray-200 hover:bg-gray-50 text-slate-700 dark:bg-slate-800 dark:border-slate-700 dark:hover:bg-slate-750 dark:text-slate-200";
+  }
+
+  // Feedback state
+  if (isCorrectAnswer) {
+      return base + "bg-green-100 border-green-500 text-green-700 font-medium dark:bg-green-900/50 dark:text-green-300";
+  }
+
+  if (isSelected && !isCorrectAnswer) {
+      return base + "bg-red-100 border-red-500 text-red-700 dark:bg-red-900/50 dark:text-red-300";
+  }
+
+  return base + "bg-white border-gray-200 opacity-50 dark:bg-slate-800 dark:border-slate-700";
+};
+
+export const OptionList: React.FC<AnswerInputProps<string>> = ({ question, answer, onAnswer, status, hintsUsed }) => {
+  const eliminated = hintsUsed > 0 ? eliminatedOptions(question) : [];
+  return (
+    <div className="grid grid-cols-1 gap-3">
+    {question.options.map((option, idx) => {
+        const isEliminated = eliminated.includes(option);
+        return (
+            <button
+            key={idx}
+            onClick={() => {
+                if (status === 'idle' && !isEliminated) onAnswer(option);
+            }}
+            disabled={status !== 'idle' || isEliminated}
+            className={getOptionClass(option, answer, question.correctAnswer, status, isEliminated)}
+            >
+            <span className="bengali-text text-lg">{option}</span>
+            </button>
+        );
+    })}
+    </div>
+  );
+};
+
+// Shows the chosen option inside the blank
+const FillBlankText: React.FC<QuestionTextProps<string>> = ({ question, answer, hintsUsed, services }) => {
+  const parts = question.questionText.split(/(_+)/);
+  const [lookedUpMeaning, setLookedUpMeaning] = useState<string | null>(null);
+  const showMeaning = hintsUsed > 0;
+
+  // Lessons from before blankMeaning existed: ask the dictionary instead
+  useEffect(() => {
+    if (!showMeaning || question.blankMeaning) return;
+    const controller = new AbortController();
+    services.lookupWord(question.correctAnswer, "A1 (Beginner)", controller.signal)
+      .then(res => setLookedUpMeaning(res.entry.meaning))
+      .catch(e => {
+        if (isAbortError(e)) return;
+        console.error("Hint lookup failed", e);
+        setLookedUpMeaning('');
+      });
+    return () => controller.abort();
+  }, [showMeaning, question, services]);
+
+  const meaning = question.blankMeaning ?? lookedUpMeaning;
+
+  return (
+     <>
+     <div className="flex flex-wrap gap-1 items-baseline whitespace-pre-wrap">
+         {parts.map((part, idx) => {
+             if (part.startsWith('_')) {
+                 return (
+                    <span key={idx} className="border-b-2 border-slate-400 font-bold px-2 text-blue-600 dark:text-blue-400 min-w-[3rem] text-center inline-block">
+                        {answer || <span className="text-transparent">a</span>}
+                    </span>
+                 )
+             }
+             // Preserve newlines in the text parts
+             return <span key={idx} className="whitespace-pre-wrap">{part}</span>
+         })}
+     </div>
+     {showMeaning && (
+         <p className="mt-3 text-base font-normal text-amber-700 dark:text-amber-300 bengali-text">
+             💡 শূন্যস্থানের অর্থ: {meaning === null ? '...' : meaning || 'পাওয়া যায়নি (not found)'}
+         </p>
+     )}
+     </>
+  );
+};
+
+const blankMeaningHint: QuestionHint<string> = {
+  label: "শব্দের অর্থ দেখুন (Show meaning)",
+  cost: HINT_COST,
+  maxUses: 1,
+  // Without a stored meaning the hint needs the dictionary
+  isAvailable: (question) => !!question.blankMeaning || navigator.onLine,
+};
+
+export const multipleChoice = {
+  validate: validateMultipleChoice,
+  isAnswer: isString,
+  AnswerInput: OptionList,
+  isAnswerReady: (answer: string | null) => !!answer,
+  checkAnswer: (question: Question, answer: string) => ({ isCorrect: answer === question.correctAnswer }),
+  score: scoreCorrectAnswer,
+  hint: eliminateOptionsHint,
+};
+
+export const fillBlank: QuestionTypePlugin<string> = {
+  ...multipleChoice,
+  type: QuestionType.FillBlank,
+  instruction: "Fill in the blank",
+  questionLanguage: 'en-US',
+  QuestionText: FillBlankText,
+  hint: blankMeaningHint,
+};
@@ -0,0 +1,383 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Question, QuestionType } from '../types';
+import { MicrophoneIcon, PlayIcon, SlidersIcon, SpeakerIcon } from '../components/Icons';
+import { blobToDataUrl, getRecordings, isRecordingSupported, PronunciationAttempt, saveRecording } from '../services/recordings';
+import { AnswerInputProps, AnswerResult, QuestionCheck, QuestionTypePlugin } from './types';
+import { ClickableQuestionText } from './QuestionText';
+import { diffWords, HINT_COST, scoreCorrectAnswer, speakText, WORD_DIFF_CLASSES, WordDiff, WordDiffKind, wordAccuracy } from './helpers';
+
+// Read the sentence aloud. The answer is every transcript the recogniser
+// offered with its confidence; the best one is aligned word by word with the
+// target. The attempt is also recorded so learners can compare it with the
+// model reading, and checked attempts are kept per sentence.
+
+type Sensitivity = 'Easy' | 'Medium' | 'Hard';
+
+const SENSITIVITY_KEY = 'ib_pronunciation_sensitivity';
+const SENSITIVITY_LEVELS: Sensitivity[] = ['Easy', 'Medium', 'Hard'];
+const SIMILARITY_THRESHOLDS: Record<Sensitivity, number> = { Easy: 50, Medium: 80, Hard: 95 };
+
+const getSensitivity = (): Sensitivity => {
+  const saved = localStorage.getItem(SENSITIVITY_KEY) as Sensitivity | null;
+  return saved && SENSITIVITY_LEVELS.includes(saved) ? saved : 'Medium';
+};
+
+const validatePronunciation = (q: Question): QuestionCheck => {
+  const repairs: string[] = [];
+  const target = q.correctAnswer.trim() || q.options[0]?.trim() || '';
+
+  if (!/[a-zA-Z]/.test(target)) {
+    return { question: q, repairs, error: 'pronunciation target is not English text' };
+  }
+  if (q.options.length !== 1 || q.options[0] !== target || q.correctAnswer !== target) {
+    repairs.push('set pronunciation options to the target sentence');
+  }
+
+  return { question: { ...q, correctAnswer: target, options: [target] }, repairs };
+};
+
+// Everything the recogniser heard, most likely first. The learner's audio stays
+// in the component: answers are snapshotted to localStorage, which is no place for it.
+interface SpokenAnswer {
+  alternatives: { transcript: string; confidence: number }[];
+}
+
+interface Recording {
+  audio: string; // data: URL
+  recordedAt: number;
+}
+
+const isSpokenAnswer = (value: unknown): value is SpokenAnswer =>
+  !!value && Array.isArray((value as SpokenAnswer).alternatives)
+  && (value as SpokenAnswer).alternatives.every(alt => typeof alt?.transcript === 'string' && typeof alt.confidence === 'number');
+
+const MAX_ALTERNATIVES = 5;
+// Recognition normally ends well before this; it only stops a stuck recorder
+const MAX_RECORDING_MS = 15000;
+// How much a low recogniser confidence can pull the score down
+const CONFIDENCE_WEIGHT = 0.3;
+
+interface Hearing {
+  transcript: string;
+  diff: WordDiff[];
+  score: number; // 0-100
+}
+
+// Browsers often report 0 when they have no confidence figure; trust an
+// unrated top result fully and unrated alternatives a bit less
+const confidenceOf = (confidence: number, rank: number) =>
+  confidence > 0 ? confidence : rank === 0 ? 1 : 0.7;
+
+// The alternative that best matches the target, scored by word accuracy
+// scaled by how sure the recogniser was of it
+const bestHearing = (question: Question, answer: SpokenAnswer): Hearing =>
+  answer.alternatives
+    .map((alt, rank) => {
+      const diff = diffWords(question.correctAnswer, alt.transcript);
+      const confidence = confidenceOf(alt.confidence, rank);
+      const score = 100 * wordAccuracy(diff) * (1 - CONFIDENCE_WEIGHT + CONFIDENCE_WEIGHT * confidence);
+      return { transcript: alt.transcript, diff, score };
+    })
+    .reduce((best, h) => (h.score > best.score ? h : best));
+
+const quoteWords = (words: WordDiff[]) => words.map(d => `'${d.word}'`).join(', ');
+
+const getPronunciationFeedback = (hearing: Hearing): string => {
+  const of = (kind: WordDiffKind) => hearing.diff.filter(d => d.kind === kind);
+  const unclear = of('close');
+  const missing = of('missing');
+  const extra = of('extra');
+
+  if (!unclear.length && !missing.length && !extra.length) {
+    return "চমৎকার উচ্চারণ! (Perfect pronunciation!)";
+  }
+  const parts = [
+    unclear.length ? `অস্পষ্ট (unclear): ${quoteWords(unclear)}।` : '',
+    missing.length ? `শোনা যায়নি (not heard): ${quoteWords(missing)}।` : '',
+    extra.length ? `অতিরিক্ত (extra): ${quoteWords(extra)}।` : '',
+    `স্কোর: ${Math.round(hearing.score)}%`,
+  ];
+  return parts.filter(Boolean).join(' ');
+};
+
+const checkPronunciation = (question: Question, answer: SpokenAnswer): AnswerResult => {
+  const hearing = bestHearing(question, answer);
+  return {
+    isCorrect: hearing.score >= SIMILARITY_THRESHOLDS[getSensitivity()],
+    feedback: getPronunciationFeedback(hearing),
+  };
+};
+
+const SensitivityMenu: React.FC = () => {
+  const [showSettings, setShowSettings] = useState(false);
+  const [sensitivity, setSensitivity] = useState<Sensitivity>(getSensitivity);
+
+  return (
+     <div className="relative">
+        <button
+          onClick={() => setShowSettings(!showSettings)}
+          className="text-gray-400 hover:text-blue-500 p-2 rounded-full hover:bg-gray-100 dark:hover:bg-slate-700"
+          title="Adjust Sensitivity"
+        >
+           <SlidersIcon className="w-6 h-6" />
+        </button>
+
+        {showSettings && (
+          <div className="absolute right-0 top-10 bg-white dark:bg-slate-800 shadow-xl border border-gray-100 dark:border-slate-700 rounded-xl p-3 z-20 w-48">
+             <p className="text-xs font-bold text-gray-400 uppercase mb-2">Sensitivity</p>
+             <div className="flex flex-col gap-1">
+                {SENSITIVITY_LEVELS.map((lvl) => (
+                   <button
+                     key={lvl}
+                     onClick={() => {
+                        localStorage.setItem(SENSITIVITY_KEY, lvl);
+                        setSensitivity(lvl);
+                        setShowSettings(false);
+                     }}
+                     className={`text-left px-3 py-2 rounded-lg text-sm font-medium transition-colors ${sensitivity === lvl ? 'bg-blue-100 dark:bg-blue-900 text-blue-600 dark:text-blue-300' : 'hover:bg-gray-50 dark:hover:bg-slate-700 text-gray-600 dark:text-slate-300'}`}
+                   >
+                     {lvl}
+                   </button>
+                ))}
+             </div>
+          </div>
+        )}
+     </div>
+  );
+};
+
+const SpeakAnswer: React.FC<AnswerInputProps<SpokenAnswer>> = ({ question, answer, onAnswer, status }) => {
+  const [isRecording, setIsRecording] = useState(false);
+  const [heardNothing, setHeardNothing] = useState(false);
+  const [recording, setRecording] = useState<Recording | null>(null);
+  const [history, setHistory] = useState<PronunciationAttempt[]>([]);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const listeningRef = useRef(false);
+  const savedAttemptRef = useRef<number | null>(null);
+
+  useEffect(() => {
+    getRecordings(question.correctAnswer).then(setHistory);
+  }, [question.correctAnswer]);
+
+  const stopCapture = () => {
+    listeningRef.current = false;
+    if (recorderRef.current?.state === 'recording') recorderRef.current.stop();
+    recorderRef.current = null;
+  };
+
+  useEffect(() => stopCapture, []);
+
+  // Record the microphone alongside recognition; without it the check still works
+  const startCapture = async () => {
+    if (!isRecordingSupported()) return;
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      if (!listeningRef.current) {
+        // Recognition already finished while permission was being granted
+        stream.getTracks().forEach(t => t.stop());
+        return;
+      }
+      const recorder = new MediaRecorder(stream);
+      const chunks: Blob[] = [];
+      const recordedAt = Date.now();
+      recorder.ondataavailable = (e) => { if (e.data.size) chunks.push(e.data); };
+      recorder.onstop = async () => {
+        stream.getTracks().forEach(t => t.stop());
+        if (!chunks.length) return;
+        try {
+          const audio = await blobToDataUrl(new Blob(chunks, { type: recorder.mimeType || 'audio/webm' }));
+          setRecording({ audio, recordedAt });
+        } catch (e) {
+          console.warn("Could not read recording", e);
+        }
+      };
+      recorder.start();
+      recorderRef.current = recorder;
+      setTimeout(() => { if (recorderRef.current === recorder) stopCapture(); }, MAX_RECORDING_MS);
+    } catch (e) {
+      console.warn("Could not record audio", e);
+    }
+  };
+
+  // Keep checked attempts so the learner can hear their progress on this sentence.
+  // The recording usually arrives just after the transcript, sometimes after the check.
+  useEffect(() => {
+    if (status === 'idle' || !recording || !answer || savedAttemptRef.current === recording.recordedAt) return;
+    savedAttemptRef.current = recording.recordedAt;
+    const hearing = bestHearing(question, answer);
+    saveRecording(question.correctAnswer, {
+      recordedAt: recording.recordedAt,
+      audio: recording.audio,
+      transcript: hearing.transcript,
+      score: Math.round(hearing.score),
+      isCorrect: status === 'correct',
+    })
+      .then(() => getRecordings(question.correctAnswer))
+      .then(setHistory);
+  }, [status, recording, answer, question]);
+
+  const startListening = () => {
+    if ('webkitSpeechRecognition' in window || 'SpeechRecognition' in window) {
+      const SpeechRecognition = (window as any).SpeechRecognition || (window as any).webkitSpeechRecognition;
+      const recognition = new SpeechRecognition();
+      recognition.lang = 'en-US';
+      recognition.interimResults = false;
+      recognition.maxAlternatives = MAX_ALTERNATIVES;
+
+      setIsRecording(true);
+      setHeardNothing(false);
+      setRecording(null);
+      onAnswer(null);
+      listeningRef.current = true;
+      startCapture();
+
+      recognition.onresult = (event: any) => {
+        const alternatives = Array.from(event.results[0] as ArrayLike<any>)
+          .map(alt => ({ transcript: String(alt.transcript ?? ''), confidence: Number(alt.confidence) || 0 }))
+          .filter(alt => alt.transcript.trim());
+        if (alternatives.length) {
+          onAnswer({ alternatives });
+        } else {
+          setHeardNothing(true);
+        }
+      };
+
+      recognition.onerror = (event: any) => {
+        console.error("Speech recognition error", event.error);
+        if (event.error === 'no-speech') setHeardNothing(true);
+        setIsRecording(false);
+        stopCapture();
+      };
+
+      recognition.onend = () => {
+        setIsRecording(false);
+        stopCapture();
+      };
+
+      recognition.start();
+    } else {
+      alert("দুঃখিত, আপনার ব্রাউজারে ভয়েস রেকর্ড সাপোর্ট নেই। (Sorry, speech recognition is not supported in this browser.)");
+    }
+  };
+
+  const hearing = answer?.alternatives?.length ? bestHearing(question, answer) : null;
+  const earlierAttempts = history.filter(a => a.recordedAt !== recording?.recordedAt);
+  const playAudio = (url: string) => new Audio(url).play().catch(() => {});
+
+  return (
+    <div className="flex flex-col items-center justify-center py-8 space-y-6">
+        <button
+            onClick={startListening}
+            disabled={status !== 'idle' || isRecording}
+            className={`
+                relative w-32 h-32 rounded-full flex items-center justify-center transition-all
+                ${isRecording ? 'bg-red-500 animate-pulse ring-4 ring-red-200 dark:ring-red-900' :
+                  status === 'idle' ? 'bg-blue-500 hover:bg-blue-600 shadow-xl' : 'bg-gray-300 dark:bg-slate-600'}
+            `}
+        >
+            <MicrophoneIcon className="w-12 h-12 text-white" isRecording={isRecording} />
+            {isRecording && <span className="absolute -bottom-8 text-red-500 dark:text-red-400 font-bold">Listening...</span>}
+        </button>
+
+        {heardNothing && !isRecording && (
+            <p className="text-sm text-gray-500 dark:text-gray-400 bengali-text">
+                কিছু শোনা যায়নি। অনুগ্রহ করে আবার চেষ্টা করুন। (Nothing heard. Please try again.)
+            </p>
+        )}
+
+        {hearing && (
+            <div className="text-center p-4 bg-gray-50 dark:bg-slate-800 rounded-xl border border-gray-200 dark:border-slate-700 w-full">
+                <p className="text-xs text-gray-500 dark:text-gray-400 uppercase mb-1">You said:</p>
+                <p className="text-lg text-slate-700 dark:text-slate-200 italic">"{hearing.transcript}"</p>
+
+                {/* Word by word after checking; red words can be heard again */}
+                {status !== 'idle' && (
+                    <>
+                        <div className="flex flex-wrap justify-center gap-2 mt-4">
+                            {hearing.diff.map((d, idx) => (
+                                d.kind === 'missing' ? (
+                                    <button
+                                        key={idx}
+                                        onClick={() => speakText(d.word)}
+                                        className={`px-2 py-1 rounded-lg font-medium inline-flex items-center gap-1 hover:ring-2 hover:ring-red-300 ${WORD_DIFF_CLASSES[d.kind]}`}
+                                        title={`Listen to '${d.word}'`}
+                                    >
+                                        <SpeakerIcon className="w-4 h-4" /> {d.word}
+                                    </button>
+                                ) : (
+                                    <span key={idx} className={`px-2 py-1 rounded-lg font-medium ${WORD_DIFF_CLASSES[d.kind]}`}>
+                                        {d.kind === 'close' ? <>{d.actual} → <b>{d.word}</b></> : d.word}
+                                    </span>
+                                )
+                            ))}
+                        </div>
+                        <p className="text-xs text-gray-500 dark:text-gray-400 bengali-text mt-2">
+                            সবুজ = ঠিক, হলুদ = অস্পষ্ট, লাল = শোনা যায়নি (শুনতে চাপুন), ধূসর = অতিরিক্ত
+                        </p>
+                    </>
+                )}
+            </div>
+        )}
+
+        {/* Your attempt next to the model reading */}
+        {recording && !isRecording && (
+            <div className="grid grid-cols-2 gap-3 w-full">
+                <button
+                    onClick={() => playAudio(recording.audio)}
+                    className="flex items-center justify-center gap-2 p-3 rounded-xl border-2 border-blue-200 dark:border-slate-700 bg-white dark:bg-slate-800 text-blue-600 dark:text-blue-300 font-bold text-sm hover:bg-blue-50 dark:hover:bg-slate-700"
+                >
+                    <PlayIcon className="w-4 h-4" /> আপনার উচ্চারণ (You)
+                </button>
+                <button
+                    onClick={() => speakText(question.correctAnswer)}
+                    className="flex items-center justify-center gap-2 p-3 rounded-xl border-2 border-green-200 dark:border-slate-700 bg-white dark:bg-slate-800 text-green-600 dark:text-green-300 font-bold text-sm hover:bg-green-50 dark:hover:bg-slate-700"
+                >
+                    <SpeakerIcon className="w-4 h-4" /> সঠিক উচ্চারণ (Model)
+                </button>
+            </div>
+        )}
+
+        {earlierAttempts.length > 0 && (
+            <div className="w-full">
+                <p className="text-xs font-bold text-gray-400 uppercase mb-2">আগের চেষ্টা (Earlier attempts)</p>
+                <div className="flex flex-wrap gap-2">
+                    {earlierAttempts.map(a => (
+                        <button
+                            key={a.recordedAt}
+                            onClick={() => playAudio(a.audio)}
+                            title={`"${a.transcript}"`}
+                            className={`flex items-center gap-1 px-3 py-1.5 rounded-full text-xs font-bold border ${a.isCorrect ? 'border-green-300 text-green-700 dark:border-green-800 dark:text-green-300' : 'border-red-300 text-red-600 dark:border-red-800 dark:text-red-300'} bg-white dark:bg-slate-800 hover:bg-gray-50 dark:hover:bg-slate-700`}
+                        >
+                            <PlayIcon className="w-3 h-3" />
+                            {new Date(a.recordedAt).toLocaleDateString()} · {a.score}%
+                        </button>
+                    ))}
+                </div>
+            </div>
+        )}
+    </div>
+  );
+};
+
+export const pronunciation: QuestionTypePlugin<SpokenAnswer> = {
+  type: QuestionType.Pronunciation,
+  instruction: "বাক্যটি জোরে পড়ুন (Read this aloud)",
+  questionLanguage: 'en-US',
+  validate: validatePronunciation,
+  isAnswer: isSpokenAnswer,
+  QuestionText: ClickableQuestionText,
+  AnswerInput: SpeakAnswer,
+  HeaderControls: SensitivityMenu,
+  hint: {
+    label: "ধীরে শুনুন (Hear it slowly)",
+    cost: HINT_COST,
+    maxUses: 3,
+    apply: (question, answer) => {
+      speakText(question.correctAnswer, 'en-US', 0.5);
+      return answer;
+    },
+  },
+  isAnswerReady: (answer) => !!answer?.alternatives?.length,
+  checkAnswer: checkPronunciation,
+  score: scoreCorrectAnswer,
+};
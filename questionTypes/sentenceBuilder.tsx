@@ -0,0 +1,161 @@
+import React from 'react';
+import { Question, QuestionType } from '../types';
+import { AnswerInputProps, AnswerResult, QuestionCheck, QuestionTypePlugin } from './types';
+import { PlainQuestionText } from './QuestionText';
+import { isIndexList, normalizeText, scoreCorrectAnswer, shuffle, stripPunctuation } from './helpers';
+
+// Translate a Bengali sentence by arranging English word tiles. The tiles are
+// the words of correctAnswer plus one or two distractors; acceptedAnswers holds
+// other valid orders of the same words. The answer is a list of tile indices.
+
+const MAX_DISTRACTORS = 2;
+
+const toWords = (sentence: string) => normalizeText(sentence).split(/\s+/).filter(Boolean);
+
+// Tile labels keep the learner-facing casing but drop the punctuation normalizeText
+// ignores, so every tile compares equal to its word in the answer
+const toTiles = (sentence: string) => sentence.trim().split(/\s+/).map(stripPunctuation).filter(Boolean);
+
+const sameWords = (a: string[], b: string[]) => [...a].sort().join(' ') === [...b].sort().join(' ');
+
+const validateSentenceBuilder = (q: Question): QuestionCheck => {
+  const repairs: string[] = [];
+  const answer = q.correctAnswer.trim();
+  const answerWords = toWords(answer);
+
+  if (answerWords.length < 2) {
+    return { question: q, repairs, error: 'sentence_builder answer is not a sentence' };
+  }
+
+  // Tiles must contain every answer word; anything left over is a distractor
+  let options = q.options.map(o => o.trim()).filter(Boolean);
+  const remaining = [...options];
+  const hasAllWords = answerWords.every(word => {
+    const i = remaining.findIndex(t => normalizeText(t) === word);
+    if (i === -1) return false;
+    remaining.splice(i, 1);
+    return true;
+  });
+  const distractors = remaining.filter(t => !answerWords.includes(normalizeText(t)));
+
+  if (!hasAllWords || remaining.length > MAX_DISTRACTORS) {
+    options = shuffle([...toTiles(answer), ...distractors.slice(0, MAX_DISTRACTORS)]);
+    repairs.push('rebuilt word tiles from correctAnswer');
+  }
+
+  const acceptedAnswers = [...new Set((q.acceptedAnswers ?? []).map(a => a.trim()))]
+    .filter(a => normalizeText(a) !== normalizeText(answer) && sameWords(toWords(a), answerWords));
+  if (acceptedAnswers.length !== (q.acceptedAnswers ?? []).length) {
+    repairs.push('dropped acceptedAnswers that do not use the same words');
+  }
+
+  return { question: { ...q, correctAnswer: answer, options, acceptedAnswers }, repairs };
+};
+
+const builtWords = (question: Question, indices: number[]) => indices.map(i => normalizeText(question.options[i]));
+
+// The valid order that shares the most word positions with what the learner built
+const closestTarget = (question: Question, built: string[]): string[] =>
+  [question.correctAnswer, ...(question.acceptedAnswers ?? [])]
+    .map(toWords)
+    .reduce((best, target) => {
+      const matches = (words: string[]) => words.filter((w, i) => built[i] === w).length;
+      return matches(target) > matches(best) ? target : best;
+    });
+
+const checkSentence = (question: Question, indices: number[]): AnswerResult => {
+  const built = builtWords(question, indices);
+  const target = closestTarget(question, built);
+  const isCorrect = built.join(' ') === target.join(' ');
+  if (isCorrect) return { isCorrect };
+
+  const misplaced = built.filter((w, i) => target[i] !== w);
+  const missing = target.filter(w => !built.includes(w));
+  const parts = [
+    misplaced.length ? `ভুল জায়গায় বা অতিরিক্ত: ${misplaced.map(w => `'${w}'`).join(', ')}।` : '',
+    missing.length ? `বাদ পড়েছে: ${missing.map(w => `'${w}'`).join(', ')}।` : '',
+    `সঠিক উত্তর: ${question.correctAnswer}`,
+  ];
+  return { isCorrect, feedback: parts.filter(Boolean).join(' ') };
+};
+
+const WordTiles: React.FC<AnswerInputProps<number[]>> = ({ question, answer, onAnswer, status }) => {
+  const builtIndices = answer ?? [];
+  const target = status === 'idle' ? [] : closestTarget(question, builtWords(question, builtIndices));
+
+  const handleTileClick = (index: number, isSelectedArea: boolean) => {
+    if (status !== 'idle') return;
+
+    if (isSelectedArea) {
+        onAnswer(builtIndices.filter(i => i !== index));
+    } else if (!builtIndices.includes(index)) {
+        onAnswer([...builtIndices, index]);
+    }
+  };
+
+  // After checking, each placed tile shows whether it is in the right position
+  const getBuiltTileClass = (position: number, index: number) => {
+    const base = "px-3 h-12 rounded-lg shadow-md border-b-4 font-bold text-lg flex items-center justify-center transition-colors animate-in zoom-in duration-200 ";
+    if (status === 'idle') {
+      return base + "bg-white dark:bg-slate-800 text-slate-700 dark:text-white border-gray-200 dark:border-slate-900 hover:bg-red-50 dark:hover:bg-red-900/30";
+    }
+    return target[position] === normalizeText(question.options[index])
+      ? base + "bg-green-100 dark:bg-green-900/50 text-green-700 dark:text-green-300 border-green-300 dark:border-green-800"
+      : base + "bg-red-100 dark:bg-red-900/50 text-red-700 dark:text-red-300 border-red-300 dark:border-red-800";
+  };
+
+  return (
+    <div className="flex flex-col gap-6">
+        {/* Answer Area */}
+        <div className="min-h-[80px] bg-gray-100 dark:bg-slate-700 rounded-xl flex flex-wrap items-center justify-center gap-2 p-4 border-2 border-dashed border-gray-300 dark:border-slate-600">
+            {builtIndices.map((originalIndex, position) => (
+                 <button
+                    key={`built-${originalIndex}`}
+                    onClick={() => handleTileClick(originalIndex, true)}
+                    className={getBuiltTileClass(position, originalIndex)}
+                 >
+                     {question.options[originalIndex]}
+                 </button>
+            ))}
+            {builtIndices.length === 0 && (
+                <span className="text-gray-400 text-sm">Tap words below to build the sentence</span>
+            )}
+        </div>
+
+        {/* Word Pool */}
+        <div className="flex flex-wrap justify-center gap-3">
+            {question.options.map((word, index) => {
+                const isUsed = builtIndices.includes(index);
+                return (
+                    <button
+                        key={`pool-${index}`}
+                        onClick={() => handleTileClick(index, false)}
+                        disabled={isUsed || status !== 'idle'}
+                        className={`
+                            px-3 h-12 rounded-lg font-bold text-lg flex items-center justify-center transition-all
+                            ${isUsed
+                                ? 'bg-gray-200 dark:bg-slate-700 text-transparent border-0 cursor-default'
+                                : 'bg-white dark:bg-slate-800 text-blue-600 dark:text-blue-400 shadow-md border-b-4 border-blue-200 dark:border-slate-900 hover:-translate-y-1 active:border-b-0 active:translate-y-0'}
+                        `}
+                    >
+                        {word}
+                    </button>
+                );
+            })}
+        </div>
+    </div>
+  );
+};
+
+export const sentenceBuilder: QuestionTypePlugin<number[]> = {
+  type: QuestionType.SentenceBuilder,
+  instruction: "ইংরেজি বাক্যটি সাজান (Build the English sentence)",
+  questionLanguage: 'bn-IN',
+  validate: validateSentenceBuilder,
+  isAnswer: isIndexList,
+  QuestionText: PlainQuestionText,
+  AnswerInput: WordTiles,
+  isAnswerReady: (answer) => !!answer && answer.length > 0,
+  checkAnswer: checkSentence,
+  score: scoreCorrectAnswer,
+};
@@ -0,0 +1,142 @@
+import React, { useState } from 'react';
+import { Difficulty, Question, QuestionType } from '../types';
+import { INPUT_LIMITS } from '../services/inputGuard';
+import { isAbortError } from '../services/requestScheduler';
+import { AnswerInputProps, AnswerResult, QuestionServices, QuestionTypePlugin } from './types';
+import { ClickableQuestionText, PlainQuestionText } from './QuestionText';
+import { multipleChoice, OptionList } from './multipleChoice';
+import { isNearMiss, normalizeText } from './helpers';
+
+// Translate in either direction, by picking an option or by typing. Typed
+// answers are compared with correctAnswer and acceptedAnswers after
+// normalising, with a small typo allowance per word; anything else goes to the model.
+
+type AnswerMode = 'choose' | 'type';
+
+const ANSWER_MODE_KEY = 'ib_translation_answer_mode';
+
+// Typing is the default once learners are past Beginner
+const getAnswerMode = (difficulty: Difficulty): AnswerMode => {
+  const saved = localStorage.getItem(ANSWER_MODE_KEY);
+  if (saved === 'choose' || saved === 'type') return saved;
+  return difficulty === Difficulty.Beginner ? 'choose' : 'type';
+};
+
+// Apostrophes are dropped too, so "dont" matches "don't"
+const normalizeAnswer = (s: string) => normalizeText(s).replace(/'/g, '');
+
+// One letter here flips the meaning ("can't" vs "can"), so these never count as typos
+const NEGATION = /^(?:not|no|never|nor|none|nothing|nobody|nowhere|cannot|(?:do|does|did|ca|could|wo|would|should|is|are|was|were|has|have|had|must|need|ai)nt|না|নয়|নেই|নি)$/;
+
+// Same words in the same order, allowing a spelling slip in longer words (see isNearMiss)
+const isTypoOf = (target: string, typed: string) => {
+  const targetWords = target.split(' ');
+  const typedWords = typed.split(' ');
+  return targetWords.length === typedWords.length && targetWords.every((word, i) =>
+    word === typedWords[i] || (!NEGATION.test(word) && !NEGATION.test(typedWords[i]) && isNearMiss(word, typedWords[i]))
+  );
+};
+
+const checkTranslation = async (
+  question: Question,
+  answer: string,
+  direction: 'bn-en' | 'en-bn',
+  services: QuestionServices,
+  signal?: AbortSignal
+): Promise<AnswerResult> => {
+  // A picked option must be the exact answer
+  if (question.options.includes(answer)) return { isCorrect: answer === question.correctAnswer };
+
+  const expected = [question.correctAnswer, ...(question.acceptedAnswers ?? [])];
+  const typed = normalizeAnswer(answer);
+  if (expected.some(e => normalizeAnswer(e) === typed)) return { isCorrect: true };
+
+  const nearMiss = expected.find(e => isTypoOf(normalizeAnswer(e), typed));
+  if (nearMiss) {
+    return { isCorrect: true, feedback: `প্রায় ঠিক! বানানটি খেয়াল করুন: ${nearMiss}` };
+  }
+
+  try {
+    const grade = await services.gradeTranslation(question.questionText, expected, answer, direction, signal);
+    return {
+      isCorrect: grade.isCorrect,
+      feedback: grade.isCorrect ? grade.feedback : `${grade.feedback} সঠিক উত্তর: ${question.correctAnswer}`.trim(),
+    };
+  } catch (e) {
+    if (isAbortError(e)) throw e;
+    console.error("Answer grading failed", e);
+    // Without a second opinion only the expected answers count
+    return { isCorrect: false, feedback: `সঠিক উত্তর: ${question.correctAnswer}` };
+  }
+};
+
+const TranslationInput: React.FC<AnswerInputProps<string>> = (props) => {
+  const { question, answer, onAnswer, status, difficulty, hintsUsed } = props;
+  const [mode, setMode] = useState<AnswerMode>(() => getAnswerMode(difficulty));
+  const toEnglish = question.type === QuestionType.TranslateToEnglish;
+
+  const switchMode = () => {
+    const next = mode === 'type' ? 'choose' : 'type';
+    localStorage.setItem(ANSWER_MODE_KEY, next);
+    setMode(next);
+    onAnswer(null);
+  };
+
+  // The hint works on the options, so it brings them up
+  const showOptions = mode === 'choose' || hintsUsed > 0;
+
+  return (
+    <div className="flex flex-col gap-3">
+      {showOptions ? (
+        <OptionList {...props} />
+      ) : (
+        <>
+          <textarea
+            value={answer ?? ''}
+            onChange={(e) => onAnswer(e.target.value.trim() ? e.target.value : null)}
+            disabled={status !== 'idle'}
+            maxLength={INPUT_LIMITS.grade}
+            rows={3}
+            placeholder={toEnglish ? "Type the English translation..." : "বাংলা অনুবাদ লিখুন..."}
+            className="w-full p-4 rounded-xl border-2 border-gray-200 dark:border-slate-700 bg-white dark:bg-slate-800 text-lg text-slate-800 dark:text-white bengali-text focus:border-blue-500 focus:outline-none"
+          />
+          {status !== 'idle' && (
+            <p className="text-sm text-gray-500 dark:text-gray-400 bengali-text">
+              সঠিক উত্তর (Answer): <span className="font-bold text-slate-700 dark:text-slate-200">{question.correctAnswer}</span>
+            </p>
+          )}
+        </>
+      )}
+
+      {status === 'idle' && hintsUsed === 0 && (
+        <button onClick={switchMode} className="self-center text-sm font-bold text-blue-500 hover:text-blue-600">
+          {mode === 'type' ? 'Show options (অপশন দেখুন)' : 'Type the answer (নিজে লিখুন)'}
+        </button>
+      )}
+    </div>
+  );
+};
+
+const translation = {
+  ...multipleChoice,
+  AnswerInput: TranslationInput,
+  isAnswerReady: (answer: string | null) => !!answer && !!answer.trim(),
+};
+
+export const translateToEnglish: QuestionTypePlugin<string> = {
+  ...translation,
+  type: QuestionType.TranslateToEnglish,
+  instruction: "নিচের বাক্যটি ইংরেজিতে অনুবাদ করুন",
+  questionLanguage: 'bn-IN',
+  QuestionText: PlainQuestionText,
+  checkAnswer: (question, answer, services, signal) => checkTranslation(question, answer, 'bn-en', services, signal),
+};
+
+export const translateToBengali: QuestionTypePlugin<string> = {
+  ...translation,
+  type: QuestionType.TranslateToBengali,
+  instruction: "Translate this sentence",
+  questionLanguage: 'en-US',
+  QuestionText: ClickableQuestionText,
+  checkAnswer: (question, answer, services, signal) => checkTranslation(question, answer, 'en-bn', services, signal),
+};
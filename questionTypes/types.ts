@@ -0,0 +1,92 @@
+import React from 'react';
+import { AnswerGrade, Difficulty, DictionaryResult, Question, QuestionType } from '../types';
+
+// Everything the app knows about one kind of exercise lives in its plugin:
+// how the model should write it, how to repair model output, how it is shown,
+// answered, checked and scored. Plugins are registered in ./index.ts.
+
+export type AnswerStatus = 'idle' | 'correct' | 'incorrect';
+
+export interface QuestionCheck {
+  question: Question;
+  repairs: string[];
+  error?: string; // Set when the question can't be repaired locally
+}
+
+export interface AnswerResult {
+  isCorrect: boolean;
+  feedback?: string; // Shown instead of the question's explanation
+  // The wrong attempts already cost hearts while answering (via onMistake),
+  // so a wrong result doesn't cost another one
+  mistakesCharged?: boolean;
+}
+
+// Model-backed calls a plugin may need. LessonRunner passes them in, so plugins
+// don't import the AI service (which imports this registry to validate lessons).
+export interface QuestionServices {
+  gradeTranslation: (
+    questionText: string,
+    expected: string[],
+    answer: string,
+    direction: 'bn-en' | 'en-bn',
+    signal?: AbortSignal
+  ) => Promise<AnswerGrade>;
+  lookupWord: (word: string, level: string, signal?: AbortSignal) => Promise<{ entry: DictionaryResult }>;
+}
+
+export interface QuestionTextProps<A> {
+  question: Question;
+  answer: A | null;
+  status: AnswerStatus;
+  hintsUsed: number;
+  onWordClick: (word: string) => void;
+  services: QuestionServices;
+}
+
+export interface AnswerInputProps<A> {
+  question: Question;
+  answer: A | null;
+  onAnswer: (answer: A | null) => void;
+  // Call for a wrong attempt before the answer is checked (costs a heart)
+  onMistake: () => void;
+  status: AnswerStatus;
+  difficulty: Difficulty;
+  hintsUsed: number; // Hints bought for this question; inputs render their effect
+}
+
+// Help a stuck learner can buy inside a question. It costs XP straight away
+// and cuts the question's reward (see reduceForHints).
+export interface QuestionHint<A> {
+  label: string; // Button text
+  cost: number; // XP taken from the learner's total
+  maxUses: number;
+  isAvailable?: (question: Question, answer: A | null) => boolean;
+  // Runs the hint and returns the answer to continue with (e.g. with the next letter placed)
+  apply?: (question: Question, answer: A | null) => A | null;
+}
+
+// A is the plugin's own answer shape. The registry holds plugins as
+// QuestionTypePlugin<unknown>; see register() in ./index.tsx.
+export interface QuestionTypePlugin<A = unknown> {
+  type: QuestionType;
+  // Heading above the question, e.g. "Fill in the blank"
+  instruction: string;
+  // Language of questionText, used by the "listen to question" button
+  questionLanguage: 'en-US' | 'bn-IN';
+  // QuestionText has its own playback controls, so the runner hides its listen button
+  hasOwnAudio?: boolean;
+  validate: (question: Question) => QuestionCheck;
+  // Answers reach the plugin from the runner's state and from saved snapshots;
+  // anything that fails this check is treated as no answer
+  isAnswer: (value: unknown) => value is A;
+  QuestionText: React.FC<QuestionTextProps<A>>;
+  AnswerInput: React.FC<AnswerInputProps<A>>;
+  // Optional controls next to the heading (e.g. pronunciation sensitivity)
+  HeaderControls?: React.FC;
+  hint?: QuestionHint<A>;
+  isAnswerReady: (answer: A | null, question: Question) => boolean;
+  // May ask the model for a second opinion, hence async and abortable
+  checkAnswer: (question: Question, answer: A, services: QuestionServices, signal?: AbortSignal) => AnswerResult | Promise<AnswerResult>;
+  // XP awarded for an answer, also when it is not fully correct (partial credit)
+  score: (question: Question, result: AnswerResult, answer: A) => number;
+}
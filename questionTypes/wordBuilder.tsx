@@ -0,0 +1,123 @@
+import React from 'react';
+import { Question, QuestionType } from '../types';
+import { AnswerInputProps, QuestionCheck, QuestionHint, QuestionTypePlugin } from './types';
+import { PlainQuestionText } from './QuestionText';
+import { HINT_COST, isIndexList, scoreCorrectAnswer, shuffle } from './helpers';
+
+// Build the English word from scrambled letter tiles. The answer is the list of
+// tile indices (into question.options) in the order they were tapped.
+
+const sortedLetters = (letters: string[]) => [...letters].sort().join('');
+
+const validateWordBuilder = (q: Question): QuestionCheck => {
+  const repairs: string[] = [];
+  const answer = q.correctAnswer.trim().toUpperCase();
+
+  if (!/^[A-Z]+$/.test(answer)) {
+    return { question: q, repairs, error: 'word_builder answer is not a single English word' };
+  }
+  if (answer !== q.correctAnswer) {
+    repairs.push('normalised correctAnswer to uppercase');
+  }
+
+  let options = q.options.map(o => o.trim().toUpperCase());
+  const tilesSpellAnswer = options.every(o => o.length === 1) && sortedLetters(options) === sortedLetters(answer.split(''));
+  if (!tilesSpellAnswer) {
+    options = shuffle(answer.split(''));
+    repairs.push('regenerated scrambled tiles from correctAnswer');
+  }
+
+  return { question: { ...q, correctAnswer: answer, options }, repairs };
+};
+
+// How many of the built tiles already spell the start of the word
+const correctPrefixLength = (question: Question, built: number[]) => {
+  let length = 0;
+  while (length < built.length && question.options[built[length]] === question.correctAnswer[length]) length++;
+  return length;
+};
+
+// Keeps the correct start of what was built and places the next right letter
+const revealNextLetter: QuestionHint<number[]> = {
+  label: "পরের অক্ষর দেখুন (Next letter)",
+  cost: HINT_COST,
+  maxUses: 3,
+  // The last letter is always left to the learner
+  isAvailable: (question, answer) => correctPrefixLength(question, answer ?? []) < question.correctAnswer.length - 1,
+  apply: (question, answer) => {
+    const prefix = (answer ?? []).slice(0, correctPrefixLength(question, answer ?? []));
+    const next = question.options.findIndex((letter, i) => letter === question.correctAnswer[prefix.length] && !prefix.includes(i));
+    return next === -1 ? prefix : [...prefix, next];
+  },
+};
+
+const LetterTiles: React.FC<AnswerInputProps<number[]>> = ({ question, answer, onAnswer, status }) => {
+  const builtWordIndices = answer ?? [];
+
+  const handleTileClick = (index: number, isSelectedArea: boolean) => {
+    if (status !== 'idle') return;
+
+    if (isSelectedArea) {
+        // Remove from built word (return to pool)
+        onAnswer(builtWordIndices.filter(i => i !== index));
+    } else if (!builtWordIndices.includes(index)) {
+        onAnswer([...builtWordIndices, index]);
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-6">
+        {/* Answer Area */}
+        <div className="min-h-[80px] bg-gray-100 dark:bg-slate-700 rounded-xl flex flex-wrap items-center justify-center gap-2 p-4 border-2 border-dashed border-gray-300 dark:border-slate-600">
+            {builtWordIndices.map((originalIndex) => (
+                 <button
+                    key={`built-${originalIndex}`}
+                    onClick={() => handleTileClick(originalIndex, true)}
+                    className="w-12 h-12 md:w-14 md:h-14 bg-white dark:bg-slate-800 text-slate-700 dark:text-white rounded-lg shadow-md border-b-4 border-gray-200 dark:border-slate-900 font-bold text-xl flex items-center justify-center hover:bg-red-50 dark:hover:bg-red-900/30 transition-colors animate-in zoom-in duration-200"
+                 >
+                     {question.options[originalIndex]}
+                 </button>
+            ))}
+            {builtWordIndices.length === 0 && (
+                <span className="text-gray-400 text-sm">Tap letters below to build the word</span>
+            )}
+        </div>
+
+        {/* Options Pool */}
+        <div className="flex flex-wrap justify-center gap-3">
+            {question.options.map((char, index) => {
+                const isUsed = builtWordIndices.includes(index);
+                return (
+                    <button
+                        key={`pool-${index}`}
+                        onClick={() => handleTileClick(index, false)}
+                        disabled={isUsed || status !== 'idle'}
+                        className={`
+                            w-12 h-12 md:w-14 md:h-14 rounded-lg font-bold text-xl flex items-center justify-center transition-all
+                            ${isUsed
+                                ? 'bg-gray-200 dark:bg-slate-700 text-transparent border-0 cursor-default'
+                                : 'bg-white dark:bg-slate-800 text-blue-600 dark:text-blue-400 shadow-md border-b-4 border-blue-200 dark:border-slate-900 hover:-translate-y-1 active:border-b-0 active:translate-y-0'}
+                        `}
+                    >
+                        {char}
+                    </button>
+                );
+            })}
+        </div>
+    </div>
+  );
+};
+
+export const wordBuilder: QuestionTypePlugin<number[]> = {
+  type: QuestionType.WordBuilder,
+  instruction: "শব্দটি তৈরি করুন (Form the word)",
+  questionLanguage: 'en-US',
+  validate: validateWordBuilder,
+  isAnswer: isIndexList,
+  QuestionText: PlainQuestionText,
+  AnswerInput: LetterTiles,
+  isAnswerReady: (answer) => !!answer && answer.length > 0,
+  checkAnswer: (question, answer) => ({ isCorrect: answer.map(i => question.options[i]).join('') === question.correctAnswer }),
+  score: scoreCorrectAnswer,
+  hint: revealNextLetter,
+};
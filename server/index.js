@@ -0,0 +1,226 @@
+// Small API proxy that keeps the Gemini key on the server. The browser app
+// (AI_PROVIDER=proxy) posts only the inputs of a request (params); this server
+// checks their size, rate limits the client and builds the prompt, schema and
+// system instruction itself (services/promptTemplates.js), so it can't be used
+// to send arbitrary prompts on our key.
+//
+//   npm run server        (reads GEMINI_API_KEY from .env.local or the environment)
+
+import http from 'node:http';
+import { GoogleGenAI } from '@google/genai';
+import { buildModelPrompt, InvalidParamsError } from '../services/promptTemplates.js';
+
+try {
+  process.loadEnvFile('.env.local');
+} catch (e) {
+  // No .env.local; rely on the real environment
+}
+
+const PORT = Number(process.env.PORT) || 8787;
+const MODEL = process.env.AI_MODEL || 'gemini-2.5-flash';
+// Models a client may ask for (see services/modelSettings.ts); requests without a
+// model use MODEL and any other model is rejected. Listed at GET /api/models.
+// Only MODEL unless more (e.g. the pricier gemini-2.5-pro) are opted into.
+const ALLOWED_MODELS = process.env.AI_ALLOWED_MODELS
+  ? process.env.AI_ALLOWED_MODELS.split(',').map(m => m.trim()).filter(Boolean)
+  : [MODEL];
+const MAX_OUTPUT_TOKENS = 8192;
+const RATE_LIMIT_PER_MINUTE = Number(process.env.PROXY_REQUESTS_PER_MINUTE) || 20;
+const ALLOWED_ORIGIN = process.env.ALLOWED_ORIGIN || '';
+// Only behind a reverse proxy that sets X-Forwarded-For; otherwise clients could pick their own id
+const TRUST_PROXY = process.env.TRUST_PROXY === 'true';
+const MAX_BODY_BYTES = 32 * 1024;
+const WINDOW_MS = 60_000;
+
+// Endpoint -> feature and per-feature input limits (characters)
+const ROUTES = {
+  '/api/lesson': { feature: 'lesson', maxParams: { difficulty: 20, topic: 40, replace: 3, existing: 4000 } },
+  '/api/lookup': { feature: 'dictionary', maxParams: { word: 60, level: 30 } },
+  '/api/check-sentence': { feature: 'sentence', maxParams: { word: 60, sentence: 500 } },
+  '/api/translate': { feature: 'translate', maxParams: { text: 2000, direction: 10 } },
+  '/api/grade-answer': { feature: 'grade', maxParams: { questionText: 500, expected: 1000, answer: 300, direction: 10 } },
+};
+
+if (!process.env.GEMINI_API_KEY) {
+  console.error('GEMINI_API_KEY is not set. Add it to .env.local or the environment.');
+  process.exit(1);
+}
+
+const ai = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY });
+
+class HttpError extends Error {
+  constructor(status, message) {
+    super(message);
+    this.status = status;
+  }
+}
+
+// Sliding one-minute window of request timestamps per client
+const requestLog = new Map();
+
+const clientId = (req) => {
+  const forwarded = req.headers['x-forwarded-for'];
+  if (TRUST_PROXY && typeof forwarded === 'string' && forwarded) {
+    // The last hop was added by our proxy; anything before it is client-supplied
+    return forwarded.split(',').pop().trim();
+  }
+  return req.socket.remoteAddress || 'unknown';
+};
+
+// Returns how many ms the client has to wait, or 0 if the request may go ahead
+const checkRateLimit = (id) => {
+  const now = Date.now();
+  const recent = (requestLog.get(id) || []).filter(t => now - t < WINDOW_MS);
+  if (recent.length >= RATE_LIMIT_PER_MINUTE) {
+    requestLog.set(id, recent);
+    return WINDOW_MS - (now - recent[0]);
+  }
+  recent.push(now);
+  requestLog.set(id, recent);
+  return 0;
+};
+
+// Forget idle clients so the map doesn't grow forever
+setInterval(() => {
+  const now = Date.now();
+  for (const [id, times] of requestLog) {
+    if (times.every(t => now - t >= WINDOW_MS)) requestLog.delete(id);
+  }
+}, WINDOW_MS).unref();
+
+const readBody = (req) =>
+  new Promise((resolve, reject) => {
+    let size = 0;
+    const chunks = [];
+    req.on('data', chunk => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new HttpError(413, 'Request body too large'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+
+const parseRequest = (raw, route) => {
+  let body;
+  try {
+    body = JSON.parse(raw);
+  } catch (e) {
+    throw new HttpError(400, 'Body must be JSON');
+  }
+
+  const { params, model, temperature, maxOutputTokens } = body || {};
+  if (typeof params !== 'object' || params === null || Array.isArray(params)) throw new HttpError(400, 'Missing params');
+
+  for (const [name, value] of Object.entries(params)) {
+    const max = Object.hasOwn(route.maxParams, name) ? route.maxParams[name] : undefined;
+    if (max === undefined) throw new HttpError(400, `Unexpected parameter '${name}'`);
+    if (typeof value !== 'string') throw new HttpError(400, `'${name}' must be a string`);
+    if (value.length > max) throw new HttpError(413, `'${name}' is too long (max ${max} characters)`);
+  }
+
+  if (model !== undefined && !ALLOWED_MODELS.includes(model)) {
+    throw new HttpError(400, `Model '${String(model).slice(0, 60)}' is not allowed on this server`);
+  }
+
+  let built;
+  try {
+    built = buildModelPrompt(route.feature, params);
+  } catch (error) {
+    if (error instanceof InvalidParamsError) throw new HttpError(400, error.message);
+    throw error;
+  }
+
+  return {
+    ...built,
+    model: model ?? MODEL,
+    temperature: Number.isFinite(temperature) ? Math.min(2, Math.max(0, temperature)) : undefined,
+    maxOutputTokens: Number.isFinite(maxOutputTokens) ? Math.min(MAX_OUTPUT_TOKENS, Math.max(1, Math.round(maxOutputTokens))) : undefined,
+  };
+};
+
+const sendJson = (res, status, payload, headers = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(payload));
+};
+
+const handle = async (req, res) => {
+  if (ALLOWED_ORIGIN) {
+    res.setHeader('Access-Control-Allow-Origin', ALLOWED_ORIGIN);
+    res.setHeader('Vary', 'Origin');
+  }
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, {
+      'Access-Control-Allow-Methods': 'GET, POST',
+      'Access-Control-Allow-Headers': 'Content-Type',
+    });
+    res.end();
+    return;
+  }
+
+  const pathname = new URL(req.url || '/', 'http://localhost').pathname;
+  // Lets the model picker offer only what this server accepts
+  if (pathname === '/api/models' && req.method === 'GET') {
+    sendJson(res, 200, { defaultModel: MODEL, models: ALLOWED_MODELS });
+    return;
+  }
+
+  const route = ROUTES[pathname];
+  if (!route) throw new HttpError(404, 'Not found');
+  if (req.method !== 'POST') throw new HttpError(405, 'Method not allowed');
+
+  const waitMs = checkRateLimit(clientId(req));
+  if (waitMs > 0) {
+    sendJson(res, 429, { error: 'Too many requests' }, { 'Retry-After': String(Math.ceil(waitMs / 1000)) });
+    return;
+  }
+
+  const { prompt, schema, systemInstruction, model, temperature, maxOutputTokens } = parseRequest(await readBody(req), route);
+
+  // Stop the upstream call if the browser cancels the request
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) controller.abort();
+  });
+
+  const response = await ai.models.generateContent({
+    model,
+    contents: prompt,
+    config: schema
+      ? { responseMimeType: 'application/json', responseSchema: schema, systemInstruction, temperature, maxOutputTokens, abortSignal: controller.signal }
+      : { systemInstruction, temperature, maxOutputTokens, abortSignal: controller.signal }
+  });
+  const usage = response.usageMetadata;
+  sendJson(res, 200, {
+    text: response.text || '',
+    model: response.modelVersion || model,
+    usage: usage && {
+      promptTokens: usage.promptTokenCount ?? 0,
+      outputTokens: usage.candidatesTokenCount ?? 0,
+      totalTokens: usage.totalTokenCount ?? 0,
+    },
+  });
+};
+
+const server = http.createServer((req, res) => {
+  handle(req, res).catch(error => {
+    if (res.headersSent || res.destroyed) return;
+    if (error instanceof HttpError) {
+      sendJson(res, error.status, { error: error.message });
+      return;
+    }
+    // Pass quota/overload errors through so the client scheduler can back off
+    const upstream = Number(error?.status);
+    const status = upstream === 429 || upstream === 503 ? upstream : 502;
+    console.error(`${req.url} failed:`, error);
+    sendJson(res, status, { error: status === 429 ? 'Quota exhausted' : 'Upstream model error' });
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`AI proxy listening on http://localhost:${PORT} (model ${MODEL}, ${RATE_LIMIT_PER_MINUTE} req/min per client)`);
+});
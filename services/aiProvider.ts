@@ -0,0 +1,71 @@
+import { geminiProvider } from './providers/geminiProvider';
+import { mockProvider } from './providers/mockProvider';
+import { proxyProvider } from './providers/proxyProvider';
+import { getApiKey, getUserApiKey } from './apiKey';
+
+// Every model call in the app goes through one of these providers so the
+// feature code in geminiService never talks to a concrete SDK directly.
+export type AIFeature = 'lesson' | 'dictionary' | 'sentence' | 'translate' | 'grade';
+
+export interface AIRequest {
+  feature: AIFeature;
+  // The inputs the prompt is built from (difficulty, topic, word...), see
+  // buildModelPrompt in promptTemplates.js. Requests never carry a prompt:
+  // the proxy builds it on the server, the offline mock builds fixtures instead.
+  params: Record<string, string>;
+  // Filled in from the per-feature generation settings by geminiService
+  model?: string;
+  temperature?: number;
+  maxOutputTokens?: number;
+  signal?: AbortSignal;
+}
+
+export interface AIUsage {
+  promptTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+}
+
+export interface AIResponse {
+  text: string;
+  model?: string;
+  usage?: AIUsage; // From the response metadata, when the provider reports it
+}
+
+export interface AIProvider {
+  name: AIProviderName;
+  generate: (request: AIRequest) => Promise<AIResponse>;
+}
+
+export type AIProviderName = 'gemini' | 'proxy' | 'mock';
+
+const PROVIDER_OVERRIDE_KEY = 'ib_ai_provider';
+
+const isProviderName = (value: unknown): value is AIProviderName =>
+  value === 'gemini' || value === 'proxy' || value === 'mock';
+
+// Priority: local override (handy for demos) -> key saved in Account -> build-time env ->
+// gemini if a key is available in the browser, otherwise the backend proxy that holds the key.
+export const getActiveProviderName = (): AIProviderName => {
+  try {
+    const override = localStorage.getItem(PROVIDER_OVERRIDE_KEY);
+    if (isProviderName(override)) return override;
+  } catch (e) {
+    // localStorage may be unavailable (private mode); fall through to env
+  }
+
+  if (getUserApiKey()) return 'gemini';
+
+  const fromEnv = process.env.AI_PROVIDER;
+  if (isProviderName(fromEnv)) return fromEnv;
+
+  return getApiKey() ? 'gemini' : 'proxy';
+};
+
+const PROVIDERS: Record<AIProviderName, AIProvider> = {
+  gemini: geminiProvider,
+  proxy: proxyProvider,
+  mock: mockProvider,
+};
+
+export const getProvider = (): AIProvider => PROVIDERS[getActiveProviderName()];
@@ -0,0 +1,54 @@
+import { GoogleGenAI } from "@google/genai";
+import { DEFAULT_MODEL } from './modelSettings';
+
+// A Gemini key pasted by the learner (or their teacher) in Account. It lives in
+// its own localStorage entry, never in UserState, so progress backups don't carry it.
+
+const API_KEY_STORAGE_KEY = 'ib_api_key';
+
+export type ApiKeyStatus = 'valid' | 'invalid' | 'quota_exhausted' | 'network_error';
+
+export const getUserApiKey = (): string | null => {
+  try {
+    return localStorage.getItem(API_KEY_STORAGE_KEY) || null;
+  } catch (e) {
+    return null;
+  }
+};
+
+export const setUserApiKey = (key: string | null) => {
+  if (key) {
+    localStorage.setItem(API_KEY_STORAGE_KEY, key.trim());
+  } else {
+    localStorage.removeItem(API_KEY_STORAGE_KEY);
+  }
+};
+
+// The user's key wins over one provided at build time
+export const getApiKey = (): string | undefined => getUserApiKey() || process.env.API_KEY || undefined;
+
+export const maskApiKey = (key: string): string =>
+  key.length <= 8 ? '••••' : `${key.slice(0, 4)}••••${key.slice(-4)}`;
+
+const classifyKeyError = (error: any): ApiKeyStatus => {
+  const status = Number(error?.status ?? error?.code);
+  const message = String(error?.message || '');
+  if (status === 429 || /RESOURCE_EXHAUSTED|quota/i.test(message)) return 'quota_exhausted';
+  if (status === 400 || status === 401 || status === 403 || /API_KEY_INVALID|API key not valid|PERMISSION_DENIED/i.test(message)) return 'invalid';
+  return 'network_error';
+};
+
+// Cheapest call that still exercises generation quota: a one-token reply
+export const testApiKey = async (key: string, signal?: AbortSignal): Promise<ApiKeyStatus> => {
+  try {
+    await new GoogleGenAI({ apiKey: key.trim() }).models.generateContent({
+      model: DEFAULT_MODEL,
+      contents: 'Hi',
+      config: { maxOutputTokens: 1, abortSignal: signal }
+    });
+    return 'valid';
+  } catch (error) {
+    console.warn("API key test failed:", error);
+    return classifyKeyError(error);
+  }
+};
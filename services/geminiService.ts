@@ -1,298 +1,415 @@
 
-import { GoogleGenAI, Type, Schema } from "@google/genai";
-import { Difficulty, LessonData, QuestionType, DictionaryResult } from '../types';
+import { AnswerGrade, Difficulty, LessonData, DictionaryResult, SentenceFeedback, GrammarError } from '../types';
 import { TOPICS } from '../constants';
+import { getProvider, AIRequest, AIResponse } from './aiProvider';
+import { schedule, RequestPriority, createAbortError, isAbortError, sleep } from './requestScheduler';
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-
-const lessonSchema: Schema = {
-  type: Type.OBJECT,
-  properties: {
-    topic: { type: Type.STRING, description: "The English topic identifier (e.g., 'greetings')" },
-    title: { type: Type.STRING, description: "The lesson title in Bengali" },
-    questions: {
-      type: Type.ARRAY,
-      items: {
-        type: Type.OBJECT,
-        properties: {
-          id: { type: Type.STRING },
-          type: { 
-            type: Type.STRING, 
-            enum: [
-              QuestionType.TranslateToEnglish, 
-              QuestionType.TranslateToBengali, 
-              QuestionType.FillBlank,
-              QuestionType.Pronunciation,
-              QuestionType.WordBuilder
-            ] 
-          },
-          questionText: { type: Type.STRING, description: "The phrase to translate, the sentence with a blank, or the English phrase to pronounce." },
-          options: { 
-            type: Type.ARRAY, 
-            items: { type: Type.STRING },
-            description: "For Translate/FillBlank: 4 plausible answers. For Pronunciation: The target sentence only. For WordBuilder: An array of single characters representing the scrambled letters of the correct English word." 
-          },
-          correctAnswer: { type: Type.STRING, description: "The exact string that is correct." },
-          explanation: { type: Type.STRING, description: "A short explanation in Bengali why this is correct." }
-        },
-        required: ["id", "type", "questionText", "options", "correctAnswer", "explanation"]
+export { isAbortError } from './requestScheduler';
+export { INPUT_LIMITS, isInputRejectedError, isOutputCheckError } from './inputGuard';
+export { isDailyCapError } from './usageLog';
+import { validateLesson, validateQuestion } from './lessonValidator';
+import { cacheGet, cacheSet, cacheDelete, cacheClear } from './storage';
+import { getOfflineLesson } from './lessonBank';
+import { getGenerationSettings } from './modelSettings';
+import { assertUnderDailyCap, isDailyCapError, isDailyCapReached, recordUsage } from './usageLog';
+import { checkUserText, containsBengali, isInScript, isPlausibleTranslationLength, OutputCheckError } from './inputGuard';
+import { getLessonPromptVars, getLessonTemplateVersion, GRAMMAR_CATEGORIES } from './promptTemplates';
+
+const lessonCacheKey = (difficulty: Difficulty, topic: string) => `${difficulty}_${topic}`;
+
+interface CachedLesson {
+  lesson: LessonData;
+  // Generated with an older prompt template; should be regenerated when possible
+  isStale: boolean;
+}
+
+const readCachedLesson = async (difficulty: Difficulty, topic: string): Promise<CachedLesson | null> => {
+  const cacheKey = lessonCacheKey(difficulty, topic);
+  const cachedLesson = await cacheGet<LessonData>('lessons', cacheKey);
+  if (!cachedLesson) return null;
+
+  const cached = validateLesson(cachedLesson);
+  if (!cached.isValid) {
+    // Written by an older version without validation; regenerate it
+    await cacheDelete('lessons', cacheKey);
+    return null;
+  }
+  return {
+    lesson: cached.lesson,
+    isStale: cached.lesson.templateVersion !== getLessonTemplateVersion(topic)
+  };
+};
+
+export const clearCachedLessons = (): Promise<void> => cacheClear('lessons');
+
+// Runs a model request through the shared scheduler (rate limit, retries, priority)
+// and records every attempt in the usage log. Throws DailyCapError once the
+// learner's daily budget is spent, checked before every attempt so queued
+// requests and retries stop too.
+const callModel = (request: AIRequest, priority: RequestPriority = 'interactive'): Promise<AIResponse> => {
+  return schedule(async () => {
+    assertUnderDailyCap();
+    const provider = getProvider();
+    const settings = getGenerationSettings(request.feature);
+    const startedAt = Date.now();
+    try {
+      const response = await provider.generate({ ...settings, ...request });
+      recordUsage({
+        at: startedAt,
+        feature: request.feature,
+        model: response.model || provider.name,
+        promptTokens: response.usage?.promptTokens ?? 0,
+        outputTokens: response.usage?.outputTokens ?? 0,
+        totalTokens: response.usage?.totalTokens ?? 0,
+        latencyMs: Date.now() - startedAt,
+        ok: true
+      });
+      return response;
+    } catch (error) {
+      if (!isAbortError(error)) {
+        recordUsage({
+          at: startedAt,
+          feature: request.feature,
+          model: provider.name === 'mock' ? 'mock' : settings.model,
+          promptTokens: 0,
+          outputTokens: 0,
+          totalTokens: 0,
+          latencyMs: Date.now() - startedAt,
+          ok: false
+        });
       }
+      throw error;
     }
-  },
-  required: ["topic", "title", "questions"]
+  }, priority, request.signal);
 };
 
-const dictionarySchema: Schema = {
-  type: Type.OBJECT,
-  properties: {
-    word: { type: Type.STRING },
-    phonetic: { type: Type.STRING, description: "IPA or simple phonetic pronunciation" },
-    meaning: { type: Type.STRING, description: "Meaning in Bengali" },
-    definition: { type: Type.STRING, description: "Definition in English" },
-    examples: { type: Type.ARRAY, items: { type: Type.STRING }, description: "2-3 example sentences using the word, suitable for the learner's level." },
-    synonyms: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Up to 3 synonyms" },
-    pronunciationTip: { type: Type.STRING, description: "A short guide in Bengali on how to pronounce the word, perhaps writing the sound in Bengali script (e.g., 'উচ্চারণ: অ্যাড-ভেন-চার')." }
-  },
-  required: ["word", "meaning", "definition", "examples", "synonyms", "pronunciationTip"]
+export const generateLesson = async (difficulty: Difficulty, topic: string, signal?: AbortSignal): Promise<LessonData> => {
+  // Try to load from cache first. Lessons from an older prompt template are
+  // still good enough offline, or if regenerating them fails.
+  const cached = await readCachedLesson(difficulty, topic);
+  if (cached && (!cached.isStale || !navigator.onLine)) return cached.lesson;
+  if (!navigator.onLine) return getOfflineLesson(difficulty, topic);
+  if (isDailyCapReached()) return cached ? cached.lesson : getOfflineLesson(difficulty, topic);
+
+  try {
+    return await fetchLesson(difficulty, topic, 'interactive', signal);
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    console.error("Gemini API Error:", error);
+    return cached ? cached.lesson : getOfflineLesson(difficulty, topic);
+  }
 };
 
-export const generateLesson = async (difficulty: Difficulty, topic: string): Promise<LessonData> => {
-  const cacheKey = `ib_lesson_${difficulty}_${topic}`;
+// Generates, validates and caches a lesson. Unlike generateLesson this throws
+// on failure so callers (e.g. bulk downloads) can tell a real lesson from a bundled one.
+const fetchLesson = async (difficulty: Difficulty, topic: string, priority: RequestPriority, signal?: AbortSignal): Promise<LessonData> => {
+  const response = await callModel({
+    feature: 'lesson',
+    params: { difficulty, topic },
+    signal
+  }, priority);
 
-  // Try to load from cache first
-  try {
-    const cachedLesson = localStorage.getItem(cacheKey);
-    if (cachedLesson) {
-      return JSON.parse(cachedLesson) as LessonData;
-    }
-  } catch (e) {
-    console.warn("Failed to load lesson from cache:", e);
+  const text = response.text;
+  if (!text) {
+    throw new Error("No content generated");
   }
+  
+  const lessonData: LessonData = {
+    ...await ensureValidLesson(JSON.parse(text), difficulty, topic, priority, signal),
+    templateVersion: getLessonTemplateVersion(topic)
+  };
+
+  // Save to cache
+  await cacheSet('lessons', lessonCacheKey(difficulty, topic), lessonData);
 
-  let prompt = '';
-
-  if (topic === 'word_formation') {
-    // Specific instructional prompt for Word Formation
-    prompt = `
-      You are a friendly Bengali-speaking English teacher. The user wants to learn **English Word Formation** (Roots, Prefixes, Suffixes).
-      
-      Create a 5-step lesson. For each step, provide a short teaching explanation in simple Bengali, followed by a question to test understanding.
-
-      Structure the 5 questions as follows:
-      1. **Root Words**: Explain that a root is the main part of a word (e.g., 'Act' in 'Action'). Question Type: Multiple Choice (TranslateToBengali/English). Ask user to identify the root or meaning.
-      2. **Prefixes**: Explain what a prefix is (e.g., 'Un-', 'Re-'). Show an example (Happy -> Unhappy). Question Type: FillBlank. (e.g., "I am not happy. I am ___happy").
-      3. **Suffixes**: Explain what a suffix is (e.g., '-er', '-ful'). Show an example (Teach -> Teacher). Question Type: FillBlank or Multiple Choice.
-      4. **Practice (Prefix)**: Use QuestionType 'word_builder'. Give the Bengali meaning of a word with a prefix (e.g., "অসুস্থ - Unwell") and scrambled letters.
-      5. **Practice (Suffix)**: Use QuestionType 'word_builder'. Give the Bengali meaning of a word with a suffix (e.g., "গায়ক - Singer") and scrambled letters.
-
-      General Rules:
-      - Tone: Encouraging, simple, non-technical.
-      - In 'questionText', put the Teaching Explanation first (followed by a newline), then the Question.
-      - Ensure 'options' are relevant.
-    `;
-  } else {
-    // Standard prompt for other topics
-    prompt = `
-      Create a fun and engaging English lesson for a Bengali speaker.
-      Target Audience Level: ${difficulty}.
-      Topic: ${topic}.
-      
-      Generate 5 questions.
-      
-      1. If Difficulty is Beginner:
-         - PRIORITIZE 'word_builder' type questions for vocabulary building. 
-         - Ask the user to form basic English words from scrambled letters based on the Bengali meaning.
-      
-      2. Otherwise, include a mix of:
-         - Translating Bengali to English
-         - Translating English to Bengali
-         - Fill in the Blanks
-         - Pronunciation practice
-         - Word Builder (Arrange letters to form a word)
-
-      3. Ensure the Bengali is natural and colloquial.
-      4. Ensure the English is grammatically correct.
-      5. Options should be plausible but clearly distinguishable.
-      6. The 'explanation' field MUST be in Bengali.
-      7. For 'word_builder':
-         - 'questionText' should be the Bengali word (and optional hint).
-         - 'correctAnswer' is the correct English word.
-         - 'options' MUST be an array of single uppercase characters that form the word, shuffled randomly.
-    `;
+  return lessonData;
+};
+
+// Repairs what can be fixed locally and asks the model again only for the
+// questions that are still broken. Throws if the lesson can't be made valid,
+// so an invalid lesson is never cached.
+const ensureValidLesson = async (
+  raw: unknown,
+  difficulty: Difficulty,
+  topic: string,
+  priority: RequestPriority,
+  signal?: AbortSignal
+): Promise<LessonData> => {
+  const result = validateLesson(raw, getLessonPromptVars(difficulty, topic).topicLabel);
+  if (result.repairs.length > 0) {
+    console.warn(`Repaired lesson ${difficulty}/${topic}:`, result.repairs);
   }
 
-  try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: prompt,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: lessonSchema,
-        systemInstruction: "You are a friendly bilingual English teacher for Bengali students. You make learning fun."
-      }
-    });
+  const lesson: LessonData = { ...result.lesson, topic };
+  if (result.isValid) return lesson;
 
-    const text = response.text;
-    if (!text) {
-      throw new Error("No content generated");
-    }
-    
-    const lessonData = JSON.parse(text) as LessonData;
+  const needed = result.brokenIndices.length + result.missingCount;
+  const kept = lesson.questions.filter((_, i) => !result.brokenIndices.includes(i));
 
-    // Save to cache
-    try {
-      localStorage.setItem(cacheKey, JSON.stringify(lessonData));
-    } catch (e) {
-      console.warn("Failed to save lesson to cache:", e);
-    }
+  const response = await callModel({
+    feature: 'lesson',
+    params: {
+      difficulty,
+      topic,
+      replace: String(needed),
+      existing: kept.map(q => q.questionText.replace(/\s+/g, ' ').slice(0, 200)).join('\n')
+    },
+    signal
+  }, priority);
+  if (!response.text) throw new Error("No replacement questions generated");
 
-    return lessonData;
-  } catch (error) {
-    console.error("Gemini API Error:", error);
-    // Fallback data in case of API failure or quota limits
-    return {
-      topic: "fallback",
-      title: "শব্দ গঠন (Word Formation Basics)",
-      questions: [
-        {
-          id: "1",
-          type: QuestionType.FillBlank,
-          questionText: "শব্দের মূল অংশকে Root Word বলে। যেমন: 'Play' (খেলা)।\nপ্রশ্ন: 'Player' শব্দটির Root Word কোনটি?",
-          options: ["Play", "Er", "Layer", "Player"],
-          correctAnswer: "Play",
-          explanation: "এখানে 'Play' হলো মূল শব্দ, আর 'er' হলো Suffix।"
-        },
-        {
-          id: "2",
-          type: QuestionType.FillBlank,
-          questionText: "Prefix শব্দের শুরুতে বসে অর্থ বদলে দেয়। যেমন: Happy (সুখী) -> Unhappy (অসুখী)।\nপ্রশ্ন: 'Possible' (সম্ভব) এর বিপরীত করতে কোন Prefix বসবে?\nIt is ___possible.",
-          options: ["Un", "Im", "Dis", "Non"],
-          correctAnswer: "Im",
-          explanation: "Possible এর আগে 'Im' বসলে হয় Impossible (অসম্ভব)।"
-        },
-        {
-           id: "3",
-           type: QuestionType.WordBuilder,
-           questionText: "Suffix শব্দের শেষে বসে। যেমন: Care + ful = Careful (সতর্ক)।\nশব্দটি তৈরি করুন: (সাহায্যকারী) Help + ful",
-           options: ["H", "E", "L", "P", "F", "U", "L"],
-           correctAnswer: "HELPFUL",
-           explanation: "Help (সাহায্য) এর সাথে ful যোগ করলে Helpful হয়।"
-        }
-      ]
-    };
+  const rawReplacements = JSON.parse(response.text)?.questions;
+  const replacements = (Array.isArray(rawReplacements) ? rawReplacements : [])
+    .map((q, i) => validateQuestion(q, i))
+    .filter(check => !check.error)
+    .map(check => check.question);
+  const merged = validateLesson({
+    ...lesson,
+    questions: [...kept, ...replacements.slice(0, needed)].map((q, i) => ({ ...q, id: String(i + 1) }))
+  }, lesson.title);
+
+  if (!merged.isValid) {
+    throw new Error(`Lesson ${difficulty}/${topic} is still invalid after regenerating ${needed} question(s)`);
   }
+  return { ...merged.lesson, topic };
 };
 
+export interface LevelDownloadResult {
+  downloaded: number;
+  failedTopics: string[];
+  capReached?: boolean; // Stopped early because the daily AI budget ran out
+}
+
+const DOWNLOAD_RETRY_ROUNDS = 2;
+const DOWNLOAD_RETRY_PAUSE_MS = 5000;
+
+// Downloads every lesson of a level for offline use. A failed topic doesn't stop the
+// rest: it is retried after the first pass, and anything still failing is reported
+// back so a later call (which skips cached lessons) can resume from there.
+// Aborting the signal stops the download; lessons fetched so far stay cached.
 export const downloadLevelLessons = async (
   difficulty: Difficulty, 
-  onProgress: (completed: number, total: number) => void
-) => {
+  onProgress: (completed: number, total: number) => void,
+  signal?: AbortSignal
+): Promise<LevelDownloadResult> => {
   const topics = TOPICS[difficulty];
   let completed = 0;
-  
-  for (const topic of topics) {
-    const cacheKey = `ib_lesson_${difficulty}_${topic.id}`;
-    
-    // Only fetch if not already cached
-    if (!localStorage.getItem(cacheKey)) {
-        const data = await generateLesson(difficulty, topic.id);
-        
-        // If we hit the fallback due to error/offline/limits, ensure we don't permanently cache it as the "real" lesson
-        // and stop the bulk download process to save resources/time.
-        if (data.topic === 'fallback') {
-             // uncache the fallback so user can try again later
-             localStorage.removeItem(cacheKey); 
-             throw new Error("API Limit or Connection Error. Stopping download.");
+  let downloaded = 0;
+  let pending = topics.map(t => t.id);
+
+  for (let round = 0; round <= DOWNLOAD_RETRY_ROUNDS && pending.length > 0; round++) {
+    if (round > 0) {
+      await sleep(DOWNLOAD_RETRY_PAUSE_MS * round, signal);
+    }
+    if (signal?.aborted) throw createAbortError();
+
+    const failed: string[] = [];
+    for (const topicId of pending) {
+      // Only fetch if not already cached
+      const cached = await readCachedLesson(difficulty, topicId);
+      if (!cached || cached.isStale) {
+        try {
+          await fetchLesson(difficulty, topicId, 'bulk', signal);
+          downloaded++;
+        } catch (e) {
+          if (isAbortError(e)) throw e;
+          if (isDailyCapError(e)) {
+            // No point retrying today; report everything not yet saved
+            return { downloaded, failedTopics: [...failed, ...pending.slice(pending.indexOf(topicId))], capReached: true };
+          }
+          console.warn(`Download of ${difficulty}/${topicId} failed, will retry later`, e);
+          failed.push(topicId);
+          continue;
         }
-        
-        // Slight delay to be polite to the rate limiter
-        await new Promise(r => setTimeout(r, 1000));
+      }
+
+      completed++;
+      onProgress(completed, topics.length);
     }
-    
-    completed++;
-    onProgress(completed, topics.length);
+    pending = failed;
   }
+
+  return { downloaded, failedTopics: pending };
 };
 
-export const lookupWord = async (word: string, level: string = 'A1 (Beginner)'): Promise<DictionaryResult> => {
-  const prompt = `
-    Provide the definition of the English word: "${word}" for a Bengali speaker.
-    Target English Proficiency Level: ${level}.
-    
-    Include:
-    1. Phonetic pronunciation.
-    2. Meaning in Bengali.
-    3. Definition in English: IMPORTANT - The definition MUST be simple and easy to understand for a learner at the ${level} level. Avoid using complex words in the definition itself.
-    4. 2-3 Example sentences using the word (Must be suitable for ${level} level).
-    5. A few synonyms (Advanced synonyms if level is high).
-    6. A short tip in Bengali on how to pronounce it correctly (write the sound in Bengali script).
-  `;
+export interface DictionaryLookup {
+  entry: DictionaryResult;
+  source: 'network' | 'cache';
+  savedAt: number; // When the entry was fetched from the model
+}
+
+export interface LookupOptions {
+  // Skip the cache and ask the model (falls back to the cached copy on failure)
+  forceRefresh?: boolean;
+  // When served from cache, quietly re-fetch the entry and report it via onRefresh
+  refreshInBackground?: boolean;
+  onRefresh?: (lookup: DictionaryLookup) => void;
+}
+
+interface CachedDictionaryEntry {
+  entry: DictionaryResult;
+  savedAt: number;
+}
+
+const dictionaryCacheKey = (word: string, level: string) => `${level}:${word.trim().toLowerCase()}`;
+
+const fetchDictionaryEntry = async (
+  word: string,
+  level: string,
+  priority: RequestPriority,
+  signal?: AbortSignal
+): Promise<DictionaryLookup> => {
+  const response = await callModel({
+    feature: 'dictionary',
+    params: { word, level },
+    signal
+  }, priority);
+  
+  if (!response.text) throw new Error("No definition found");
+  const entry = JSON.parse(response.text) as DictionaryResult;
+  if (typeof entry?.meaning !== 'string' || !containsBengali(entry.meaning)) {
+    throw new OutputCheckError("Dictionary meaning is not in Bengali");
+  }
+  const savedAt = Date.now();
+
+  await cacheSet<CachedDictionaryEntry>('dictionary', dictionaryCacheKey(word, level), { entry, savedAt });
+  return { entry, source: 'network', savedAt };
+};
+
+// Dictionary lookups are cached per word and level, so repeat lookups (history chips,
+// synonyms, Word of the Day, the in-lesson mini dictionary) are instant and work offline.
+export const lookupWord = async (
+  word: string,
+  level: string = 'A1 (Beginner)',
+  signal?: AbortSignal,
+  options: LookupOptions = {}
+): Promise<DictionaryLookup> => {
+  word = checkUserText('dictionary', word);
+  const cached = await cacheGet<CachedDictionaryEntry>('dictionary', dictionaryCacheKey(word, level));
+
+  if (cached && !options.forceRefresh) {
+    if (options.refreshInBackground && navigator.onLine && !isDailyCapReached()) {
+      fetchDictionaryEntry(word, level, 'bulk', signal)
+        .then(lookup => options.onRefresh?.(lookup))
+        .catch(e => {
+          if (!isAbortError(e)) console.warn("Background dictionary refresh failed:", e);
+        });
+    }
+    return { ...cached, source: 'cache' };
+  }
 
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: prompt,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: dictionarySchema,
-        systemInstruction: "You are an English-Bengali Dictionary helper. You excel at explaining complex words simply to learners."
-      }
-    });
-    
-    if (!response.text) throw new Error("No definition found");
-    return JSON.parse(response.text) as DictionaryResult;
+    return await fetchDictionaryEntry(word, level, 'interactive', signal);
   } catch (error) {
+    if (isAbortError(error)) throw error;
     console.error("Dictionary Error:", error);
+    if (cached) return { ...cached, source: 'cache' };
     throw error;
   }
 };
 
-export const checkSentence = async (word: string, sentence: string): Promise<string> => {
-    const prompt = `
-      The user is an English learner trying to use the word "${word}" in a sentence.
-      User's sentence: "${sentence}"
-      
-      Analyze the sentence. 
-      - Is it grammatically correct?
-      - Is the word "${word}" used correctly in context?
-      
-      Provide a helpful response in Bengali.
-      - If correct, praise them (e.g., "চমৎকার!").
-      - If incorrect, kindly explain the mistake and show the corrected sentence.
-      - Keep the response brief and encouraging (under 30 words).
-    `;
+// Models are unreliable with character offsets, so spans are re-anchored on the
+// quoted text and overlapping or out-of-range spans are dropped.
+const normaliseSentenceFeedback = (raw: any, sentence: string): SentenceFeedback => {
+  const errors: GrammarError[] = [];
+  for (const e of Array.isArray(raw?.errors) ? raw.errors : []) {
+    const text = typeof e?.text === 'string' ? e.text : '';
+    let start = Number(e?.start);
+    let end = Number(e?.end);
+    if (text && sentence.slice(start, end) !== text) {
+      start = sentence.indexOf(text);
+      end = start + text.length;
+    }
+    if (!Number.isInteger(start) || !Number.isInteger(end) || start < 0 || end > sentence.length || start >= end) continue;
+    if (errors.some(other => start < other.end && other.start < end)) continue;
 
+    errors.push({
+      start,
+      end,
+      text: sentence.slice(start, end),
+      category: GRAMMAR_CATEGORIES.includes(e?.category) ? e.category : 'other',
+      suggestion: typeof e?.suggestion === 'string' ? e.suggestion : '',
+      explanation: typeof e?.explanation === 'string' ? e.explanation : ''
+    });
+  }
+  errors.sort((a, b) => a.start - b.start);
+
+  const naturalness = Math.round(Number(raw?.naturalness));
+  return {
+    isCorrect: raw?.isCorrect === true && errors.length === 0,
+    correctedSentence: typeof raw?.correctedSentence === 'string' && raw.correctedSentence.trim() ? raw.correctedSentence : sentence,
+    errors,
+    naturalness: Number.isFinite(naturalness) ? Math.min(100, Math.max(0, naturalness)) : 0,
+    summary: typeof raw?.summary === 'string' ? raw.summary : ''
+  };
+};
+
+export const checkSentence = async (word: string, sentence: string, signal?: AbortSignal): Promise<SentenceFeedback> => {
+    sentence = checkUserText('sentence', sentence);
     try {
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: prompt,
+        const response = await callModel({
+            feature: 'sentence',
+            params: { word, sentence },
+            signal
         });
-        return response.text || "দুঃখিত, যাচাই করা সম্ভব হয়নি।";
+        if (!response.text) throw new Error("No feedback generated");
+        return normaliseSentenceFeedback(JSON.parse(response.text), sentence);
     } catch (e) {
-        console.error("Sentence Check Error", e);
-        return "ত্রুটি হয়েছে। আবার চেষ্টা করুন।";
+        if (!isAbortError(e)) console.error("Sentence Check Error", e);
+        throw e;
     }
 };
 
-export const translateText = async (text: string, direction: 'bn-en' | 'en-bn'): Promise<string> => {
-    const prompt = `
-      Translate the following text strictly from ${direction === 'bn-en' ? 'Bengali to English' : 'English to Bengali'}.
-      Original Text: "${text}"
-      
-      Requirements:
-      1. The translation must be natural, grammatically correct, and easy to understand.
-      2. If the text is informal/slang, translate it to an equivalent colloquial form if possible, but prioritize clarity.
-      3. Return ONLY the translated text string. No explanations or extra quotes.
-    `;
+// Throws InputRejectedError, DailyCapError or OutputCheckError for the Translator to show
+export const translateText = async (text: string, direction: 'bn-en' | 'en-bn', signal?: AbortSignal): Promise<string> => {
+    text = checkUserText('translate', text);
+
+    const cacheKey = `${direction}:${text}`;
+    const cached = await cacheGet<string>('translations', cacheKey);
+    if (cached) return cached;
 
     try {
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: prompt,
+        const response = await callModel({
+            feature: 'translate',
+            params: { text, direction },
+            signal
         });
-        return response.text?.trim() || "Translation failed.";
+        const translation = response.text.trim();
+        if (!translation) throw new Error("No translation generated");
+
+        // Don't show or cache output that isn't a translation into the target language
+        if (!isInScript(translation, direction === 'bn-en' ? 'en' : 'bn') || !isPlausibleTranslationLength(text, translation)) {
+            throw new OutputCheckError(`Rejected translation output: ${translation}`);
+        }
+
+        await cacheSet('translations', cacheKey, translation);
+        return translation;
     } catch (e) {
-        console.error("Translation Error", e);
-        return "ত্রুটি হয়েছে। আবার চেষ্টা করুন।";
+        if (!isAbortError(e)) console.error("Translation Error", e);
+        throw e;
     }
 };
+
+// Second opinion for typed translations that matched no expected answer, even with typo tolerance
+export const gradeTranslation = async (
+  questionText: string,
+  expected: string[],
+  answer: string,
+  direction: 'bn-en' | 'en-bn',
+  signal?: AbortSignal
+): Promise<AnswerGrade> => {
+    answer = checkUserText('grade', answer);
+    const response = await callModel({
+        feature: 'grade',
+        params: { questionText, expected: expected.join('\n'), answer, direction },
+        signal
+    });
+    if (!response.text) throw new Error("No grade generated");
+
+    const data = JSON.parse(response.text);
+    if (typeof data?.isCorrect !== 'boolean') throw new OutputCheckError("Grade is missing isCorrect");
+    return {
+        isCorrect: data.isCorrect,
+        feedback: typeof data.feedback === 'string' ? data.feedback : ''
+    };
+};
@@ -0,0 +1,10 @@
+// 32-bit FNV-1a. Not cryptographic; used for stable ids, lesson fingerprints
+// and the mock provider's seeds.
+export const hashString = (s: string): number => {
+  let h = 2166136261;
+  for (let i = 0; i < s.length; i++) {
+    h ^= s.charCodeAt(i);
+    h = Math.imul(h, 16777619);
+  }
+  return h >>> 0;
+};
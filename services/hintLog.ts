@@ -0,0 +1,59 @@
+import { Difficulty, QuestionType } from '../types';
+
+// Local log of hints bought during lessons, so learners and teachers can see
+// which questions needed help. Only the newest entries are kept.
+
+export interface HintEntry {
+  at: number;
+  difficulty: Difficulty;
+  topic: string;
+  questionType: QuestionType;
+  questionText: string;
+  cost: number; // XP paid
+}
+
+export interface HintedQuestion {
+  questionType: QuestionType;
+  questionText: string;
+  topic: string;
+  hints: number;
+  lastAt: number;
+}
+
+const HINT_LOG_KEY = 'ib_hint_log';
+const MAX_ENTRIES = 500;
+const MAX_TEXT_LENGTH = 200;
+
+const readLog = (): HintEntry[] => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(HINT_LOG_KEY) || '[]');
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (e) {
+    return [];
+  }
+};
+
+export const recordHint = (entry: HintEntry) => {
+  const log = readLog();
+  log.push({ ...entry, questionText: entry.questionText.slice(0, MAX_TEXT_LENGTH) });
+  try {
+    localStorage.setItem(HINT_LOG_KEY, JSON.stringify(log.slice(-MAX_ENTRIES)));
+  } catch (e) {
+    console.warn("Failed to save hint log:", e);
+  }
+};
+
+export const clearHintLog = () => localStorage.removeItem(HINT_LOG_KEY);
+
+// Questions ordered by how many hints they needed, then by how recently
+export const getHintedQuestions = (): HintedQuestion[] => {
+  const byQuestion = new Map<string, HintedQuestion>();
+  for (const entry of readLog()) {
+    const key = `${entry.questionType}|${entry.questionText}`;
+    const item = byQuestion.get(key) ?? { questionType: entry.questionType, questionText: entry.questionText, topic: entry.topic, hints: 0, lastAt: 0 };
+    item.hints++;
+    item.lastAt = Math.max(item.lastAt, entry.at);
+    byQuestion.set(key, item);
+  }
+  return [...byQuestion.values()].sort((a, b) => b.hints - a.hints || b.lastAt - a.lastAt);
+};
@@ -0,0 +1,73 @@
+import type { AIFeature } from './aiProvider';
+
+// Hardening for learner-typed text that ends up in a prompt: length caps per
+// feature and checks that the model's answer has the shape we asked for.
+// Delimiting the text in the prompt is done by delimitUserText in promptTemplates.js.
+
+type UserTextFeature = Exclude<AIFeature, 'lesson'>;
+
+// Kept in line with the limits enforced by server/index.js
+export const INPUT_LIMITS: Record<UserTextFeature, number> = {
+  dictionary: 60,
+  sentence: 500,
+  translate: 2000,
+  grade: 300,
+};
+
+// Shown to the learner as-is, so the message is in Bengali
+export class InputRejectedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InputRejectedError';
+  }
+}
+
+export class OutputCheckError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OutputCheckError';
+  }
+}
+
+export const isInputRejectedError = (error: unknown): error is InputRejectedError =>
+  error instanceof InputRejectedError;
+
+export const isOutputCheckError = (error: unknown): error is OutputCheckError =>
+  error instanceof OutputCheckError;
+
+// C0/C1 control characters except tab and newline
+const CONTROL_CHARS = /[\u0000-\u0008\u000B-\u001F\u007F-\u009F]/g;
+const DICTIONARY_WORD = /^[A-Za-z][A-Za-z'\- .]*$/;
+
+// Returns the cleaned text, or throws InputRejectedError with a message for the learner
+export const checkUserText = (feature: UserTextFeature, text: string): string => {
+  const cleaned = text.replace(CONTROL_CHARS, '').trim();
+  const limit = INPUT_LIMITS[feature];
+
+  if (cleaned.length > limit) {
+    throw new InputRejectedError(`লেখাটি অনেক বড়। সর্বোচ্চ ${limit} অক্ষর লিখুন (এখন ${cleaned.length} অক্ষর)।`);
+  }
+  if (feature === 'dictionary' && !DICTIONARY_WORD.test(cleaned)) {
+    throw new InputRejectedError('শুধু একটি ইংরেজি শব্দ বা ছোট শব্দগুচ্ছ লিখুন।');
+  }
+  return cleaned;
+};
+
+const countScripts = (text: string) => ({
+  bengali: (text.match(/[\u0980-\u09FF]/g) || []).length,
+  latin: (text.match(/[A-Za-z]/g) || []).length,
+});
+
+export const containsBengali = (text: string): boolean => countScripts(text).bengali > 0;
+
+// Bengali output may keep a few English names or terms; English output should have almost no Bengali
+export const isInScript = (text: string, language: 'bn' | 'en'): boolean => {
+  const { bengali, latin } = countScripts(text);
+  if (bengali + latin === 0) return true; // Numbers or punctuation only
+  const bengaliShare = bengali / (bengali + latin);
+  return language === 'bn' ? bengaliShare >= 0.5 : bengaliShare <= 0.1;
+};
+
+// A translation far longer than its source usually means the model did something else
+export const isPlausibleTranslationLength = (source: string, translation: string): boolean =>
+  translation.length <= source.length * 4 + 200;
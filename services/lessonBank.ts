@@ -0,0 +1,20 @@
+import { Difficulty, LessonData } from '../types';
+import { validateLesson } from './lessonValidator';
+import lessonBank from '../data/lessonBank.json';
+
+// Hand-written lessons bundled with the app, one or more per topic. Served when
+// a lesson can't be generated (offline, no API key, quota exhausted) and there
+// is no cached copy. Lessons are keyed by difficulty, then topic id.
+
+const BANK = lessonBank as Record<string, Record<string, unknown>>;
+
+// Unknown topics (e.g. 'general') get the first lesson of the level
+export const getOfflineLesson = (difficulty: Difficulty, topic: string): LessonData => {
+  const levelBank = BANK[difficulty] || BANK[Difficulty.Beginner];
+  const raw = levelBank[topic] ?? Object.values(levelBank)[0];
+  const { lesson, isValid } = validateLesson(raw);
+  if (!isValid) {
+    console.warn(`Bundled lesson ${difficulty}/${topic} failed validation`);
+  }
+  return { ...lesson, isOffline: true };
+};
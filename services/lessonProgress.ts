@@ -0,0 +1,99 @@
+import { Difficulty, LessonData } from '../types';
+import { AnswerResult, AnswerStatus } from '../questionTypes';
+import { hashString } from './hash';
+
+// Snapshots of unfinished lessons so a reload (or the phone killing the tab)
+// doesn't send the learner back to question one. One snapshot per topic,
+// written by LessonRunner after every answer and removed when the lesson ends.
+
+export interface LessonSnapshot {
+  difficulty: Difficulty;
+  topic: string;
+  // Identifies the lesson the snapshot belongs to; a regenerated lesson won't match
+  fingerprint: string;
+  questionCount: number;
+  currentIndex: number;
+  score: number;
+  heartsUsed: number;
+  hintsUsed: number; // On the current question
+  answer: unknown; // The current question's input (tile indices, typed text...); the plugin checks its shape
+  status: AnswerStatus;
+  result: AnswerResult | null;
+  savedAt: number;
+}
+
+const LESSON_PROGRESS_KEY = 'ib_lesson_progress';
+// Old snapshots are more confusing than useful
+const MAX_AGE_MS = 14 * 24 * 60 * 60 * 1000;
+
+const snapshotKey = (difficulty: Difficulty, topic: string) => `${difficulty}-${topic}`;
+
+const readSnapshots = (): Record<string, LessonSnapshot> => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(LESSON_PROGRESS_KEY) || '{}');
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+  } catch (e) {
+    return {};
+  }
+};
+
+const writeSnapshots = (snapshots: Record<string, LessonSnapshot>) => {
+  try {
+    localStorage.setItem(LESSON_PROGRESS_KEY, JSON.stringify(snapshots));
+  } catch (e) {
+    console.warn("Failed to save lesson progress:", e);
+  }
+};
+
+export const getLessonFingerprint = (lesson: LessonData): string =>
+  hashString(JSON.stringify([lesson.templateVersion ?? '', lesson.isOffline ?? false, lesson.questions])).toString(36);
+
+export const saveLessonSnapshot = (snapshot: Omit<LessonSnapshot, 'savedAt'>) => {
+  const snapshots = readSnapshots();
+  snapshots[snapshotKey(snapshot.difficulty, snapshot.topic)] = { ...snapshot, savedAt: Date.now() };
+  writeSnapshots(snapshots);
+};
+
+const isExpired = (snapshot: LessonSnapshot) => Date.now() - snapshot.savedAt > MAX_AGE_MS;
+
+export const getLessonSnapshot = (difficulty: Difficulty, topic: string): LessonSnapshot | null => {
+  const snapshot = readSnapshots()[snapshotKey(difficulty, topic)];
+  return snapshot && !isExpired(snapshot) ? snapshot : null;
+};
+
+// Every live snapshot for a level, keyed by topic. Read-only, so it's safe to call while rendering.
+export const getLessonSnapshots = (difficulty: Difficulty): Record<string, LessonSnapshot> => {
+  const byTopic: Record<string, LessonSnapshot> = {};
+  for (const snapshot of Object.values(readSnapshots())) {
+    if (snapshot.difficulty === difficulty && !isExpired(snapshot)) byTopic[snapshot.topic] = snapshot;
+  }
+  return byTopic;
+};
+
+// Drops expired snapshots; run once at startup rather than on every read
+export const pruneLessonSnapshots = () => {
+  const snapshots = readSnapshots();
+  const live = Object.entries(snapshots).filter(([, snapshot]) => !isExpired(snapshot));
+  if (live.length < Object.keys(snapshots).length) writeSnapshots(Object.fromEntries(live));
+};
+
+// The snapshot for this lesson, or null. A snapshot taken on a different
+// lesson (regenerated, re-downloaded or replaced by an offline one) is dropped.
+export const getResumableSnapshot = (difficulty: Difficulty, topic: string, lesson: LessonData): LessonSnapshot | null => {
+  const snapshot = getLessonSnapshot(difficulty, topic);
+  if (!snapshot) return null;
+  if (snapshot.fingerprint !== getLessonFingerprint(lesson) || snapshot.currentIndex >= lesson.questions.length) {
+    clearLessonSnapshot(difficulty, topic);
+    return null;
+  }
+  return snapshot;
+};
+
+export const clearLessonSnapshot = (difficulty: Difficulty, topic: string) => {
+  const snapshots = readSnapshots();
+  if (!(snapshotKey(difficulty, topic) in snapshots)) return;
+  delete snapshots[snapshotKey(difficulty, topic)];
+  writeSnapshots(snapshots);
+};
+
+export const clearAllLessonSnapshots = () => localStorage.removeItem(LESSON_PROGRESS_KEY);
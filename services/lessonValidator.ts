@@ -0,0 +1,77 @@
+import { LessonData, Question } from '../types';
+import { getQuestionType, QuestionCheck } from '../questionTypes';
+
+export const MIN_QUESTIONS = 5;
+
+export interface LessonValidationResult {
+  lesson: LessonData;
+  repairs: string[];
+  // Indices into lesson.questions that must be regenerated by the model
+  brokenIndices: number[];
+  // How many extra questions are needed to reach MIN_QUESTIONS
+  missingCount: number;
+  isValid: boolean;
+}
+
+// Coerce loosely-typed model output into a Question so the checks can rely on the shape
+const normaliseQuestion = (raw: any, index: number): Question => ({
+  id: typeof raw?.id === 'string' && raw.id ? raw.id : String(index + 1),
+  type: raw?.type,
+  questionText: typeof raw?.questionText === 'string' ? raw.questionText : '',
+  options: Array.isArray(raw?.options) ? raw.options.filter((o: unknown) => typeof o === 'string') : [],
+  correctAnswer: typeof raw?.correctAnswer === 'string' ? raw.correctAnswer : '',
+  ...(Array.isArray(raw?.acceptedAnswers)
+    ? { acceptedAnswers: raw.acceptedAnswers.filter((a: unknown) => typeof a === 'string' && a.trim()) }
+    : {}),
+  ...(Array.isArray(raw?.pairs)
+    ? { pairs: raw.pairs.filter((p: any) => typeof p?.en === 'string' && typeof p?.bn === 'string') }
+    : {}),
+  ...(typeof raw?.blankMeaning === 'string' && raw.blankMeaning.trim() ? { blankMeaning: raw.blankMeaning.trim() } : {}),
+  explanation: typeof raw?.explanation === 'string' ? raw.explanation : '',
+});
+
+export const validateQuestion = (raw: unknown, index: number = 0): QuestionCheck => {
+  const q = normaliseQuestion(raw, index);
+  const plugin = getQuestionType(q.type);
+
+  if (!plugin) return { question: q, repairs: [], error: `unknown question type '${q.type}'` };
+  if (!q.questionText.trim()) return { question: q, repairs: [], error: 'missing questionText' };
+  if (!q.explanation.trim()) return { question: q, repairs: [], error: 'missing explanation' };
+
+  return plugin.validate(q);
+};
+
+export const validateLesson = (raw: unknown, fallbackTitle: string = ''): LessonValidationResult => {
+  const data = (raw ?? {}) as Partial<LessonData>;
+  const rawQuestions: unknown[] = Array.isArray(data.questions) ? data.questions : [];
+
+  const repairs: string[] = [];
+  const brokenIndices: number[] = [];
+  const questions = rawQuestions.map((rq, index) => {
+    const { question, repairs: qRepairs, error } = validateQuestion(rq, index);
+    qRepairs.forEach(r => repairs.push(`Q${index + 1}: ${r}`));
+    if (error) brokenIndices.push(index);
+    return question;
+  });
+
+  const missingCount = Math.max(0, MIN_QUESTIONS - questions.length);
+
+  let title = typeof data.title === 'string' ? data.title.trim() : '';
+  if (!title && fallbackTitle) {
+    title = fallbackTitle;
+    repairs.push('filled in missing title');
+  }
+
+  return {
+    lesson: {
+      topic: typeof data.topic === 'string' ? data.topic : '',
+      title,
+      questions,
+      ...(typeof data.templateVersion === 'string' ? { templateVersion: data.templateVersion } : {}),
+    },
+    repairs,
+    brokenIndices,
+    missingCount,
+    isValid: brokenIndices.length === 0 && missingCount === 0 && !!title,
+  };
+};
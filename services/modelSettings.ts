@@ -0,0 +1,77 @@
+import type { AIFeature } from './aiProvider';
+
+// Which model each feature uses and how it samples, so quality can be traded
+// for cost per feature. Stored in localStorage; unset values use the defaults.
+
+export interface GenerationSettings {
+  model: string;
+  temperature: number;
+  maxOutputTokens: number;
+}
+
+export const DEFAULT_MODEL = 'gemini-2.5-flash';
+
+export const AVAILABLE_MODELS = ['gemini-2.5-flash', 'gemini-2.5-flash-lite', 'gemini-2.5-pro'];
+
+export const TEMPERATURE_RANGE = { min: 0, max: 2 };
+export const MAX_OUTPUT_TOKENS_RANGE = { min: 256, max: 8192 };
+
+// Output limits include the model's thinking tokens, so they are generous
+export const DEFAULT_GENERATION_SETTINGS: Record<AIFeature, GenerationSettings> = {
+  lesson: { model: DEFAULT_MODEL, temperature: 0.8, maxOutputTokens: 8192 },
+  dictionary: { model: DEFAULT_MODEL, temperature: 0.3, maxOutputTokens: 2048 },
+  sentence: { model: DEFAULT_MODEL, temperature: 0.2, maxOutputTokens: 2048 },
+  translate: { model: DEFAULT_MODEL, temperature: 0.2, maxOutputTokens: 4096 },
+  grade: { model: DEFAULT_MODEL, temperature: 0.1, maxOutputTokens: 1024 },
+};
+
+const SETTINGS_KEY = 'ib_model_settings';
+
+type StoredSettings = Partial<Record<AIFeature, Partial<GenerationSettings>>>;
+
+const readStored = (): StoredSettings => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(SETTINGS_KEY) || '{}');
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch (e) {
+    return {};
+  }
+};
+
+const clamp = (value: number, range: { min: number; max: number }) => Math.min(range.max, Math.max(range.min, value));
+
+// Ignores anything out of range or no longer offered, e.g. after a model is retired
+const sanitise = (stored: Partial<GenerationSettings> | undefined, defaults: GenerationSettings): GenerationSettings => ({
+  model: stored?.model && AVAILABLE_MODELS.includes(stored.model) ? stored.model : defaults.model,
+  temperature: Number.isFinite(stored?.temperature) ? clamp(stored!.temperature!, TEMPERATURE_RANGE) : defaults.temperature,
+  maxOutputTokens: Number.isFinite(stored?.maxOutputTokens)
+    ? Math.round(clamp(stored!.maxOutputTokens!, MAX_OUTPUT_TOKENS_RANGE))
+    : defaults.maxOutputTokens,
+});
+
+export const getGenerationSettings = (feature: AIFeature): GenerationSettings =>
+  sanitise(readStored()[feature], DEFAULT_GENERATION_SETTINGS[feature]);
+
+// The model the learner picked for a feature, or undefined when they left it to
+// the provider (the API proxy then uses its own default)
+export const getChosenModel = (feature: AIFeature): string | undefined => {
+  const model = readStored()[feature]?.model;
+  return model && AVAILABLE_MODELS.includes(model) ? model : undefined;
+};
+
+export const getAllGenerationSettings = (): Record<AIFeature, GenerationSettings> => {
+  const stored = readStored();
+  const result = {} as Record<AIFeature, GenerationSettings>;
+  for (const feature of Object.keys(DEFAULT_GENERATION_SETTINGS) as AIFeature[]) {
+    result[feature] = sanitise(stored[feature], DEFAULT_GENERATION_SETTINGS[feature]);
+  }
+  return result;
+};
+
+export const setGenerationSettings = (feature: AIFeature, changes: Partial<GenerationSettings>) => {
+  const stored = readStored();
+  stored[feature] = { ...stored[feature], ...changes };
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(stored));
+};
+
+export const resetGenerationSettings = () => localStorage.removeItem(SETTINGS_KEY);
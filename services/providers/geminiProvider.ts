@@ -0,0 +1,43 @@
+import { GoogleGenAI } from "@google/genai";
+import type { AIProvider } from '../aiProvider';
+import { getApiKey } from '../apiKey';
+import { DEFAULT_MODEL } from '../modelSettings';
+import { buildModelPrompt } from '../promptTemplates';
+
+let client: GoogleGenAI | null = null;
+let clientKey: string | undefined;
+
+// Created lazily so the app can boot (e.g. in mock mode) without a key, and
+// rebuilt when the learner saves a different key in Account.
+const getClient = (): GoogleGenAI => {
+  const apiKey = getApiKey();
+  if (!client || clientKey !== apiKey) {
+    client = new GoogleGenAI({ apiKey });
+    clientKey = apiKey;
+  }
+  return client;
+};
+
+export const geminiProvider: AIProvider = {
+  name: 'gemini',
+  generate: async ({ feature, params, model = DEFAULT_MODEL, temperature, maxOutputTokens, signal }) => {
+    const { prompt, schema, systemInstruction } = buildModelPrompt(feature, params);
+    const response = await getClient().models.generateContent({
+      model,
+      contents: prompt,
+      config: schema
+        ? { responseMimeType: "application/json", responseSchema: schema, systemInstruction, temperature, maxOutputTokens, abortSignal: signal }
+        : { systemInstruction, temperature, maxOutputTokens, abortSignal: signal }
+    });
+    const usage = response.usageMetadata;
+    return {
+      text: response.text || '',
+      model: response.modelVersion || model,
+      usage: usage ? {
+        promptTokens: usage.promptTokenCount ?? 0,
+        outputTokens: usage.candidatesTokenCount ?? 0,
+        totalTokens: usage.totalTokenCount ?? 0
+      } : undefined
+    };
+  }
+};
@@ -0,0 +1,270 @@
+import type { AIProvider, AIRequest } from '../aiProvider';
+import { AnswerGrade, DictionaryResult, LessonData, Question, QuestionType, SentenceFeedback } from '../../types';
+import { TOPICS } from '../../constants';
+import { createAbortError } from '../requestScheduler';
+import { hashString } from '../hash';
+
+// Offline stand-in for the model. Output is a pure function of the request
+// params and the seed, so the same lesson/word always produces the same fixture.
+
+interface VocabEntry {
+  en: string;
+  bn: string;
+  sentence: string; // Simple English sentence that contains `en`
+}
+
+const VOCAB: VocabEntry[] = [
+  { en: 'WATER', bn: 'পানি', sentence: 'I drink water every morning.' },
+  { en: 'BOOK', bn: 'বই', sentence: 'This book is very interesting.' },
+  { en: 'MOTHER', bn: 'মা', sentence: 'My mother cooks rice.' },
+  { en: 'HOUSE', bn: 'বাড়ি', sentence: 'Our house is near the river.' },
+  { en: 'FRIEND', bn: 'বন্ধু', sentence: 'He is my best friend.' },
+  { en: 'SCHOOL', bn: 'বিদ্যালয়', sentence: 'The school opens at nine.' },
+  { en: 'APPLE', bn: 'আপেল', sentence: 'She is eating an apple.' },
+  { en: 'RAIN', bn: 'বৃষ্টি', sentence: 'The rain is very heavy today.' },
+  { en: 'TEACHER', bn: 'শিক্ষক', sentence: 'Our teacher is kind.' },
+  { en: 'HAPPY', bn: 'খুশি', sentence: 'I am happy to see you.' },
+  { en: 'MARKET', bn: 'বাজার', sentence: 'We go to the market on Friday.' },
+  { en: 'DOCTOR', bn: 'ডাক্তার', sentence: 'The doctor is busy now.' },
+];
+
+const SENTENCE_PAIRS: { en: string; bn: string }[] = [
+  { en: 'How are you?', bn: 'তুমি কেমন আছো?' },
+  { en: 'I am fine.', bn: 'আমি ভালো আছি।' },
+  { en: 'What is your name?', bn: 'তোমার নাম কী?' },
+  { en: 'I like to read books.', bn: 'আমি বই পড়তে পছন্দ করি।' },
+  { en: 'Where do you live?', bn: 'তুমি কোথায় থাকো?' },
+  { en: 'It is raining today.', bn: 'আজ বৃষ্টি হচ্ছে।' },
+];
+
+// Small, fast, seedable PRNG (mulberry32)
+const createRng = (seed: number) => {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6D2B79F5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const getSeed = (): number => {
+  const fromEnv = Number(process.env.AI_MOCK_SEED);
+  return Number.isFinite(fromEnv) ? fromEnv : 42;
+};
+
+const rngFor = (request: AIRequest) => {
+  const key = Object.keys(request.params).sort().map(k => `${k}=${request.params[k]}`).join('&');
+  return createRng(getSeed() ^ hashString(`${request.feature}|${key}`));
+};
+
+const shuffle = <T,>(items: T[], rng: () => number): T[] => {
+  const copy = [...items];
+  for (let i = copy.length - 1; i > 0; i--) {
+    const j = Math.floor(rng() * (i + 1));
+    [copy[i], copy[j]] = [copy[j], copy[i]];
+  }
+  return copy;
+};
+
+const pick = <T,>(items: T[], count: number, rng: () => number): T[] => shuffle(items, rng).slice(0, count);
+
+const titleCase = (w: string) => w.charAt(0) + w.slice(1).toLowerCase();
+
+const findTopicLabel = (topicId: string): string => {
+  for (const topics of Object.values(TOPICS)) {
+    const found = topics.find(t => t.id === topicId);
+    if (found) return found.label;
+  }
+  return topicId;
+};
+
+const buildLesson = (request: AIRequest, rng: () => number): LessonData => {
+  const topic = request.params.topic || 'general';
+  const words = pick(VOCAB, 4, rng);
+  const [w1, w2, w3, w4] = words;
+  const distractors = (correct: VocabEntry, field: 'en' | 'bn') =>
+    shuffle([correct, ...pick(VOCAB.filter(v => v !== correct), 3, rng)].map(v => field === 'en' ? titleCase(v.en) : v.bn), rng);
+  const pair = pick(SENTENCE_PAIRS, 1, rng)[0];
+
+  const blankWord = w3.sentence.split(' ').find(t => t.toUpperCase().startsWith(w3.en)) || w3.en;
+  const blankAnswer = blankWord.replace(/[.,!?]/g, '');
+
+  const questions: Question[] = [
+    {
+      id: '1',
+      type: QuestionType.TranslateToEnglish,
+      questionText: w1.bn,
+      options: distractors(w1, 'en'),
+      correctAnswer: titleCase(w1.en),
+      explanation: `'${w1.bn}' শব্দের ইংরেজি হলো '${titleCase(w1.en)}'।`
+    },
+    {
+      id: '2',
+      type: QuestionType.TranslateToBengali,
+      questionText: titleCase(w2.en),
+      options: distractors(w2, 'bn'),
+      correctAnswer: w2.bn,
+      explanation: `'${titleCase(w2.en)}' মানে '${w2.bn}'।`
+    },
+    {
+      id: '3',
+      type: QuestionType.FillBlank,
+      questionText: w3.sentence.replace(blankWord, '___' + blankWord.slice(blankAnswer.length)),
+      options: shuffle([blankAnswer, ...pick(VOCAB.filter(v => v !== w3), 3, rng).map(v => v.en.toLowerCase())], rng),
+      correctAnswer: blankAnswer,
+      blankMeaning: w3.bn,
+      explanation: `এখানে '${blankAnswer}' (${w3.bn}) শব্দটি বসবে।`
+    },
+    {
+      id: '4',
+      type: QuestionType.Pronunciation,
+      questionText: pair.en,
+      options: [pair.en],
+      correctAnswer: pair.en,
+      explanation: `বাক্যটির অর্থ: ${pair.bn}`
+    },
+    {
+      id: '5',
+      type: QuestionType.WordBuilder,
+      questionText: `${w4.bn} (${w4.en.length} অক্ষর)`,
+      options: shuffle(w4.en.split(''), rng),
+      correctAnswer: w4.en,
+      explanation: `'${w4.bn}' এর ইংরেজি বানান ${w4.en}।`
+    }
+  ];
+
+  const heard = pick(SENTENCE_PAIRS.filter(p => p !== pair), 4, rng);
+  questions.push({
+    id: '6',
+    type: QuestionType.Listening,
+    questionText: heard[0].en,
+    options: shuffle(heard.map(p => p.bn), rng),
+    correctAnswer: heard[0].bn,
+    explanation: `আপনি শুনেছেন: "${heard[0].en}" — অর্থ: ${heard[0].bn}`
+  });
+
+  const built = heard[1];
+  const builtWords = built.en.split(' ').map(w => w.replace(/[.,!?]+$/, ''));
+  const extraWord = pick(VOCAB.filter(v => !builtWords.includes(v.en.toLowerCase())), 1, rng)[0].en.toLowerCase();
+  questions.push({
+    id: '7',
+    type: QuestionType.SentenceBuilder,
+    questionText: built.bn,
+    options: shuffle([...builtWords, extraWord], rng),
+    correctAnswer: built.en,
+    explanation: `'${built.bn}' ইংরেজিতে: ${built.en}`
+  });
+
+  const pairs = pick(VOCAB, 5, rng).map(v => ({ en: titleCase(v.en), bn: v.bn }));
+  questions.push({
+    id: '8',
+    type: QuestionType.MatchPairs,
+    questionText: 'ইংরেজি শব্দের সাথে বাংলা অর্থ মেলান।',
+    options: shuffle(pairs.map(p => p.bn), rng),
+    correctAnswer: '',
+    pairs,
+    explanation: pairs.map(p => `${p.en} = ${p.bn}`).join(', ')
+  });
+
+  const dictated = heard[2];
+  questions.push({
+    id: '9',
+    type: QuestionType.Dictation,
+    questionText: dictated.en,
+    options: [dictated.en],
+    correctAnswer: dictated.en,
+    explanation: `বাক্যটি ছিল: "${dictated.en}" (${dictated.bn})`
+  });
+
+  return {
+    topic,
+    title: `${findTopicLabel(topic)} (অফলাইন অনুশীলন)`,
+    questions
+  };
+};
+
+const buildDictionaryEntry = (request: AIRequest): DictionaryResult => {
+  const word = (request.params.word || '').trim();
+  const known = VOCAB.find(v => v.en === word.toUpperCase());
+  return {
+    word,
+    phonetic: word.toLowerCase(),
+    meaning: known ? known.bn : `${word} (নমুনা অর্থ)`,
+    definition: `A sample offline definition of "${word}".`,
+    examples: known ? [known.sentence] : [`This is an example with ${word}.`, `I learned the word ${word} today.`],
+    synonyms: [],
+    pronunciationTip: `উচ্চারণ: ${word}`
+  };
+};
+
+// Only checks that the practice word was used; there is no grammar model offline
+const buildSentenceFeedback = (request: AIRequest): SentenceFeedback => {
+  const sentence = request.params.sentence || '';
+  const word = request.params.word || '';
+  const usesWord = sentence.toLowerCase().includes(word.toLowerCase());
+  return {
+    isCorrect: usesWord,
+    correctedSentence: sentence,
+    errors: usesWord || !sentence ? [] : [{
+      start: 0,
+      end: sentence.length,
+      text: sentence,
+      category: 'word_usage',
+      suggestion: `${sentence} (${word})`,
+      explanation: `বাক্যে '${word}' শব্দটি ব্যবহার করুন।`
+    }],
+    naturalness: usesWord ? 70 : 30,
+    summary: usesWord ? 'চমৎকার! (অফলাইন মোডে ব্যাকরণ যাচাই করা হয়নি।)' : 'আবার চেষ্টা করুন।'
+  };
+};
+
+const translate = (request: AIRequest): string => {
+  const text = (request.params.text || '').trim();
+  const toEnglish = request.params.direction === 'bn-en';
+  const pair = SENTENCE_PAIRS.find(p => (toEnglish ? p.bn : p.en) === text);
+  if (pair) return toEnglish ? pair.en : pair.bn;
+  // Word by word from the vocabulary, ignoring punctuation. Unknown words become a
+  // placeholder in the target script, so the output still passes translateText's script check.
+  return text.split(/\s+/).map(token => {
+    const word = token.replace(/[^\p{L}\p{M}]/gu, '');
+    const entry = VOCAB.find(v => (toEnglish ? v.bn === word : v.en === word.toUpperCase()));
+    if (entry) return toEnglish ? entry.en.toLowerCase() : entry.bn;
+    return toEnglish ? '(unknown)' : '(অজানা)';
+  }).join(' ');
+};
+
+// Accepts answers that share most words with an expected answer; there is no model to judge meaning offline
+const gradeAnswer = (request: AIRequest): AnswerGrade => {
+  const words = (s: string) => s.toLowerCase().replace(/[^\p{L}\p{M}\s']/gu, ' ').split(/\s+/).filter(Boolean);
+  const answer = new Set(words(request.params.answer || ''));
+  const isCorrect = (request.params.expected || '').split('\n').some(expected => {
+    const target = words(expected);
+    return target.length > 0 && target.filter(w => answer.has(w)).length / target.length >= 0.6;
+  });
+  return {
+    isCorrect,
+    feedback: isCorrect ? 'অর্থ ঠিক আছে। (অফলাইন মোডে আনুমানিক যাচাই)' : 'উত্তরটি মেলেনি। (অফলাইন মোডে আনুমানিক যাচাই)'
+  };
+};
+
+export const mockProvider: AIProvider = {
+  name: 'mock',
+  generate: async (request) => {
+    if (request.signal?.aborted) throw createAbortError();
+    const rng = rngFor(request);
+    switch (request.feature) {
+      case 'lesson':
+        return { text: JSON.stringify(buildLesson(request, rng)) };
+      case 'dictionary':
+        return { text: JSON.stringify(buildDictionaryEntry(request)) };
+      case 'sentence':
+        return { text: JSON.stringify(buildSentenceFeedback(request)) };
+      case 'translate':
+        return { text: translate(request) };
+      case 'grade':
+        return { text: JSON.stringify(gradeAnswer(request)) };
+    }
+  }
+};
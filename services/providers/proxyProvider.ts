@@ -0,0 +1,78 @@
+import type { AIFeature, AIProvider } from '../aiProvider';
+import { getChosenModel } from '../modelSettings';
+
+// Talks to the backend in server/index.js, which holds the Gemini key and
+// builds the prompt from the params itself.
+// AI_PROXY_URL is only needed when the API is served from another origin;
+// in development Vite forwards /api to the local server.
+
+const ENDPOINTS: Record<AIFeature, string> = {
+  lesson: '/api/lesson',
+  dictionary: '/api/lookup',
+  sentence: '/api/check-sentence',
+  translate: '/api/translate',
+  grade: '/api/grade-answer',
+};
+
+export class ProxyError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'ProxyError';
+    this.status = status;
+  }
+}
+
+export interface ProxyModels {
+  defaultModel: string; // Used when a request names no model
+  models: string[]; // Every model the proxy accepts
+}
+
+const proxyBaseUrl = () => (process.env.AI_PROXY_URL || '').replace(/\/$/, '');
+
+let modelsPromise: Promise<ProxyModels> | null = null;
+
+// The models this proxy accepts; fetched once per session
+export const getProxyModels = (): Promise<ProxyModels> => {
+  if (!modelsPromise) {
+    modelsPromise = fetch(`${proxyBaseUrl()}/api/models`).then(async response => {
+      const payload = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new ProxyError(response.status, `Proxy model list failed (${response.status}): ${payload.error || response.statusText}`);
+      }
+      return {
+        defaultModel: typeof payload.defaultModel === 'string' ? payload.defaultModel : '',
+        models: Array.isArray(payload.models) ? payload.models.filter((m: unknown): m is string => typeof m === 'string') : [],
+      };
+    });
+    // Allow a later call to retry if the request failed
+    modelsPromise.catch(() => { modelsPromise = null; });
+  }
+  return modelsPromise;
+};
+
+export const proxyProvider: AIProvider = {
+  name: 'proxy',
+  // Only a model the learner picked is sent; otherwise the proxy uses its own default.
+  // A model the proxy doesn't allow comes back as a 400 rather than being swapped.
+  generate: async ({ feature, params, temperature, maxOutputTokens, signal }) => {
+    const response = await fetch(`${proxyBaseUrl()}${ENDPOINTS[feature]}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ params, model: getChosenModel(feature), temperature, maxOutputTokens }),
+      signal
+    });
+
+    const payload = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      // Keep the status so the scheduler retries 429/5xx
+      throw new ProxyError(response.status, `Proxy request failed (${response.status}): ${payload.error || response.statusText}`);
+    }
+    return {
+      text: typeof payload.text === 'string' ? payload.text : '',
+      model: typeof payload.model === 'string' ? payload.model : undefined,
+      usage: payload.usage
+    };
+  }
+};
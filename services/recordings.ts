@@ -0,0 +1,87 @@
+import { cacheClear, cacheEntries, cacheGet, cacheSet } from './storage';
+
+// The learner's recorded pronunciation attempts, kept per sentence in
+// IndexedDB so they can hear themselves improve. Audio is stored as data URLs,
+// which keeps records plain JSON and lets backups carry them.
+
+export interface PronunciationAttempt {
+  recordedAt: number; // Also identifies the attempt
+  audio: string; // data: URL
+  transcript: string;
+  score: number; // 0-100
+  isCorrect: boolean;
+}
+
+export interface SentenceRecordings {
+  sentence: string;
+  attempts: PronunciationAttempt[]; // Oldest first
+}
+
+// Older attempts are dropped; the first one is kept as the "before" to compare against
+const MAX_ATTEMPTS_PER_SENTENCE = 6;
+
+const recordingKey = (sentence: string) => sentence.trim().toLowerCase().replace(/\s+/g, ' ');
+
+const trimAttempts = (attempts: PronunciationAttempt[]): PronunciationAttempt[] =>
+  attempts.length <= MAX_ATTEMPTS_PER_SENTENCE
+    ? attempts
+    : [attempts[0], ...attempts.slice(attempts.length - MAX_ATTEMPTS_PER_SENTENCE + 1)];
+
+const mergeAttempts = (a: PronunciationAttempt[], b: PronunciationAttempt[]) => {
+  const byTime = new Map<number, PronunciationAttempt>();
+  [...a, ...b].forEach(attempt => byTime.set(attempt.recordedAt, attempt));
+  return trimAttempts([...byTime.values()].sort((x, y) => x.recordedAt - y.recordedAt));
+};
+
+export const getRecordings = async (sentence: string): Promise<PronunciationAttempt[]> =>
+  (await cacheGet<SentenceRecordings>('recordings', recordingKey(sentence)))?.attempts ?? [];
+
+// Saving the same attempt twice (e.g. after resuming a lesson) is a no-op
+export const saveRecording = async (sentence: string, attempt: PronunciationAttempt): Promise<void> => {
+  const existing = await getRecordings(sentence);
+  if (existing.some(a => a.recordedAt === attempt.recordedAt)) return;
+  await cacheSet<SentenceRecordings>('recordings', recordingKey(sentence), {
+    sentence: sentence.trim(),
+    attempts: mergeAttempts(existing, [attempt]),
+  });
+};
+
+// Most recently practised sentences first
+export const getAllRecordings = async (): Promise<SentenceRecordings[]> =>
+  (await cacheEntries<SentenceRecordings>('recordings')).map(entry => entry.value);
+
+export const clearRecordings = () => cacheClear('recordings');
+
+const isAttempt = (a: any): a is PronunciationAttempt =>
+  !!a && typeof a.recordedAt === 'number' && typeof a.audio === 'string' && a.audio.startsWith('data:audio/')
+  && typeof a.transcript === 'string' && typeof a.score === 'number' && typeof a.isCorrect === 'boolean';
+
+// Merges recordings from a backup file into the local ones; returns how many sentences were restored
+export const importRecordings = async (data: unknown): Promise<number> => {
+  if (!Array.isArray(data)) return 0;
+  let restored = 0;
+  for (const item of data) {
+    if (!item || typeof item.sentence !== 'string' || !Array.isArray(item.attempts)) continue;
+    const attempts = item.attempts.filter(isAttempt);
+    if (attempts.length === 0) continue;
+    const existing = await getRecordings(item.sentence);
+    await cacheSet<SentenceRecordings>('recordings', recordingKey(item.sentence), {
+      sentence: item.sentence.trim(),
+      attempts: mergeAttempts(existing, attempts),
+    });
+    restored++;
+  }
+  return restored;
+};
+
+// Capture runs next to SpeechRecognition, which doesn't expose its audio
+export const isRecordingSupported = () =>
+  typeof MediaRecorder !== 'undefined' && !!navigator.mediaDevices?.getUserMedia;
+
+export const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
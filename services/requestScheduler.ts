@@ -0,0 +1,163 @@
+// Central queue for every model request. It keeps us under a requests-per-minute
+// budget, retries transient failures (429 / 5xx) with exponential backoff and lets
+// interactive calls (dictionary, translator, opening a lesson) jump ahead of bulk
+// offline downloads.
+
+export type RequestPriority = 'interactive' | 'bulk';
+
+interface SchedulerConfig {
+  requestsPerMinute: number;
+  maxConcurrent: number;
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+interface Job {
+  task: () => Promise<unknown>;
+  priority: RequestPriority;
+  signal?: AbortSignal;
+  attempt: number;
+  resolve: (value: any) => void;
+  reject: (reason: unknown) => void;
+}
+
+const envRpm = Number(process.env.AI_REQUESTS_PER_MINUTE);
+
+const config: SchedulerConfig = {
+  requestsPerMinute: Number.isFinite(envRpm) && envRpm > 0 ? envRpm : 10,
+  maxConcurrent: 2,
+  maxRetries: 4,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+};
+
+const queue: Job[] = [];
+const startedAt: number[] = []; // Start timestamps within the last minute
+let active = 0;
+let wakeTimer: ReturnType<typeof setTimeout> | null = null;
+
+export const createAbortError = () => new DOMException('The request was cancelled.', 'AbortError');
+
+export const isAbortError = (error: any): boolean => error?.name === 'AbortError';
+
+// A pause that ends early, with an AbortError, when the signal fires
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+// The app's own errors (daily cap, rejected input, failed output check, bad
+// params) don't go away on retry. Their messages are localised and may contain
+// numbers, so they must never reach the message check below.
+const APP_ERROR_NAMES = new Set(['DailyCapError', 'InputRejectedError', 'OutputCheckError', 'InvalidParamsError']);
+
+// True for rate limiting and server-side errors, which are worth retrying
+export const isRetryableError = (error: any): boolean => {
+  if (isAbortError(error) || APP_ERROR_NAMES.has(error?.name)) return false;
+  const status = Number(error?.status ?? error?.code);
+  if (Number.isInteger(status) && status > 0) return status === 429 || (status >= 500 && status < 600);
+  // Errors without a status code (network failures, some SDK errors) only say so in the text
+  const message = String(error?.message || '');
+  return /\b(429|500|502|503|504)\b|RESOURCE_EXHAUSTED|UNAVAILABLE|overloaded/i.test(message);
+};
+
+const backoffDelay = (attempt: number) => {
+  const exp = Math.min(config.maxDelayMs, config.baseDelayMs * 2 ** attempt);
+  return exp / 2 + Math.random() * exp / 2; // "Equal jitter"
+};
+
+const takeNext = (): Job | undefined => {
+  const index = queue.findIndex(j => j.priority === 'interactive');
+  return queue.splice(index === -1 ? 0 : index, 1)[0];
+};
+
+const wakeAfter = (ms: number) => {
+  if (wakeTimer) return;
+  wakeTimer = setTimeout(() => {
+    wakeTimer = null;
+    pump();
+  }, ms);
+};
+
+const run = async (job: Job) => {
+  active++;
+  startedAt.push(Date.now());
+  try {
+    job.resolve(await job.task());
+  } catch (error) {
+    if (job.signal?.aborted) {
+      job.reject(createAbortError());
+    } else if (job.attempt < config.maxRetries && isRetryableError(error)) {
+      const delay = backoffDelay(job.attempt);
+      console.warn(`Request failed, retrying in ${Math.round(delay)}ms (attempt ${job.attempt + 1}/${config.maxRetries})`, error);
+      sleep(delay, job.signal).then(() => {
+        // Retries go to the front of their priority class. The same job object is
+        // re-queued so the abort listener registered in schedule() still finds it.
+        job.attempt++;
+        queue.unshift(job);
+        pump();
+      }, job.reject);
+    } else {
+      job.reject(error);
+    }
+  } finally {
+    active--;
+    pump();
+  }
+};
+
+function pump() {
+  const now = Date.now();
+  while (startedAt.length > 0 && now - startedAt[0] >= 60000) {
+    startedAt.shift();
+  }
+
+  while (queue.length > 0 && active < config.maxConcurrent) {
+    if (startedAt.length >= config.requestsPerMinute) {
+      wakeAfter(startedAt[0] + 60000 - now);
+      return;
+    }
+    const job = takeNext();
+    if (job) run(job);
+  }
+}
+
+export const schedule = <T,>(
+  task: () => Promise<T>,
+  priority: RequestPriority = 'interactive',
+  signal?: AbortSignal
+): Promise<T> => {
+  return new Promise<T>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError());
+      return;
+    }
+
+    const job: Job = { task, priority, signal, attempt: 0, resolve, reject };
+    // Drop the job if it is cancelled while still waiting in the queue.
+    // Once running, the task itself is expected to honour the signal.
+    signal?.addEventListener('abort', () => {
+      const index = queue.indexOf(job);
+      if (index !== -1) {
+        queue.splice(index, 1);
+        reject(createAbortError());
+      }
+    }, { once: true });
+
+    queue.push(job);
+    pump();
+  });
+};
@@ -0,0 +1,141 @@
+import { Difficulty, DictionaryResult, LessonData, Question, QuestionType } from '../types';
+import { hashString } from './hash';
+import { shuffle } from '../questionTypes/helpers';
+
+// Spaced-repetition queue (SM-2) of questions the learner got wrong and words
+// they looked up during lessons. Practice sessions are built from the items
+// that are due, and each review answer reschedules the item.
+
+export interface ReviewItem {
+  id: string;
+  question: Question;
+  source: 'mistake' | 'lookup';
+  difficulty?: Difficulty;
+  topic?: string;
+  ease: number; // SM-2 easiness factor
+  intervalDays: number;
+  repetitions: number; // Correct reviews in a row
+  lapses: number;
+  due: number; // Timestamp (ms)
+  addedAt: number;
+}
+
+const REVIEW_QUEUE_KEY = 'ib_review_queue';
+const DAY_MS = 24 * 60 * 60 * 1000;
+const INITIAL_EASE = 2.5;
+const MIN_EASE = 1.3;
+const MAX_ITEMS = 500;
+export const REVIEW_SESSION_SIZE = 10;
+
+const readQueue = (): ReviewItem[] => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(REVIEW_QUEUE_KEY) || '[]');
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (e) {
+    return [];
+  }
+};
+
+const writeQueue = (items: ReviewItem[]) => {
+  // Over the limit, forget the items the learner knows best
+  const kept = items.length > MAX_ITEMS
+    ? [...items].sort((a, b) => a.intervalDays - b.intervalDays).slice(0, MAX_ITEMS)
+    : items;
+  try {
+    localStorage.setItem(REVIEW_QUEUE_KEY, JSON.stringify(kept));
+  } catch (e) {
+    console.warn("Failed to save review queue:", e);
+  }
+};
+
+// Same question text and type = same item, so repeated mistakes don't pile up
+const mistakeId = (q: Question) => `q-${q.type}-${hashString(q.questionText.trim()).toString(36)}`;
+const lookupId = (word: string) => `w-${word.trim().toLowerCase()}`;
+
+const upsert = (id: string, create: () => Omit<ReviewItem, 'ease' | 'intervalDays' | 'repetitions' | 'lapses' | 'due' | 'addedAt'>) => {
+  const now = Date.now();
+  const queue = readQueue();
+  const existing = queue.find(item => item.id === id);
+  if (existing) {
+    // Seen again before it was learned: back to the start, due now
+    existing.repetitions = 0;
+    existing.intervalDays = 0;
+    existing.due = Math.min(existing.due, now);
+  } else {
+    queue.push({ ...create(), ease: INITIAL_EASE, intervalDays: 0, repetitions: 0, lapses: 0, due: now, addedAt: now });
+  }
+  writeQueue(queue);
+};
+
+export const addMistakeToReview = (question: Question, difficulty: Difficulty, topic: string) => {
+  const id = mistakeId(question);
+  upsert(id, () => ({ id, question: { ...question, id }, source: 'mistake', difficulty, topic }));
+};
+
+// Only single English words become review items (spelled from the Bengali meaning)
+export const addLookupToReview = (entry: DictionaryResult) => {
+  const word = entry.word.trim();
+  if (!/^[A-Za-z]+$/.test(word) || !entry.meaning) return;
+
+  const id = lookupId(word);
+  const letters = word.toUpperCase().split('');
+  upsert(id, () => ({
+    id,
+    source: 'lookup',
+    question: {
+      id,
+      type: QuestionType.WordBuilder,
+      questionText: `${entry.meaning} (${letters.length} অক্ষর)`,
+      options: shuffle([...letters]),
+      correctAnswer: word.toUpperCase(),
+      explanation: `'${entry.meaning}' এর ইংরেজি: ${word}। ${entry.definition}`,
+    },
+  }));
+};
+
+// SM-2 with two grades: a correct answer counts as "good" (4), a wrong one as "fail" (1)
+export const recordReview = (id: string, isCorrect: boolean) => {
+  const queue = readQueue();
+  const item = queue.find(i => i.id === id);
+  if (!item) return;
+
+  const quality = isCorrect ? 4 : 1;
+  item.ease = Math.max(MIN_EASE, item.ease + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02)));
+  if (isCorrect) {
+    item.repetitions += 1;
+    item.intervalDays = item.repetitions === 1 ? 1 : item.repetitions === 2 ? 6 : Math.round(item.intervalDays * item.ease);
+  } else {
+    item.repetitions = 0;
+    item.lapses += 1;
+    item.intervalDays = 1;
+  }
+  item.due = Date.now() + item.intervalDays * DAY_MS;
+  writeQueue(queue);
+};
+
+export const getDueReviewItems = (limit: number = REVIEW_SESSION_SIZE): ReviewItem[] => {
+  const now = Date.now();
+  return readQueue()
+    .filter(item => item.due <= now)
+    .sort((a, b) => a.due - b.due)
+    .slice(0, limit);
+};
+
+export const getDueReviewCount = (): number => {
+  const now = Date.now();
+  return readQueue().filter(item => item.due <= now).length;
+};
+
+export const clearReviewQueue = () => localStorage.removeItem(REVIEW_QUEUE_KEY);
+
+// A practice session made of the due items; null when nothing is due
+export const buildReviewLesson = (limit: number = REVIEW_SESSION_SIZE): LessonData | null => {
+  const items = getDueReviewItems(limit);
+  if (items.length === 0) return null;
+  return {
+    topic: 'review',
+    title: 'পুনরাবৃত্তি অনুশীলন (Practice)',
+    questions: items.map(item => item.question),
+    isReview: true,
+  };
+};
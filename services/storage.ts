@@ -0,0 +1,272 @@
+// IndexedDB-backed cache for generated content (lessons, dictionary entries,
+// translations) and the learner's pronunciation recordings. Each namespace has
+// its own object store with a record format version, a time-to-live and a size
+// budget enforced by evicting the least recently used records. Small settings
+// and user progress stay in localStorage.
+
+export type CacheStore = 'lessons' | 'dictionary' | 'translations' | 'recordings';
+
+interface StoreConfig {
+  version: number; // Bump to invalidate every record of the store
+  ttlMs: number;
+  maxBytes: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const STORE_CONFIG: Record<CacheStore, StoreConfig> = {
+  lessons: { version: 1, ttlMs: 90 * DAY_MS, maxBytes: 20 * 1024 * 1024 },
+  dictionary: { version: 1, ttlMs: 30 * DAY_MS, maxBytes: 5 * 1024 * 1024 },
+  translations: { version: 1, ttlMs: 7 * DAY_MS, maxBytes: 2 * 1024 * 1024 },
+  recordings: { version: 1, ttlMs: 365 * DAY_MS, maxBytes: 25 * 1024 * 1024 },
+};
+
+interface CacheRecord<T = unknown> {
+  key: string;
+  version: number;
+  value: T;
+  size: number;
+  createdAt: number;
+  lastAccessed: number;
+  expiresAt: number;
+}
+
+export interface CacheUsage {
+  count: number;
+  bytes: number;
+  maxBytes: number;
+}
+
+const DB_NAME = 'ingreji_bondhu';
+const DB_VERSION = 2; // 2: recordings store
+const MIGRATION_FLAG = 'ib_storage_migrated';
+const LEGACY_LESSON_PREFIX = 'ib_lesson_';
+
+const STORES = Object.keys(STORE_CONFIG) as CacheStore[];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const promisify = <T,>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        for (const store of STORES) {
+          if (!db.objectStoreNames.contains(store)) {
+            db.createObjectStore(store, { keyPath: 'key' }).createIndex('lastAccessed', 'lastAccessed');
+          }
+        }
+      };
+      // Another tab still holds the old version open
+      request.onblocked = () => reject(new Error('IndexedDB upgrade is blocked by another tab'));
+      request.onsuccess = () => {
+        const db = request.result;
+        // Let a newer version in another tab upgrade; the next call reopens
+        db.onversionchange = () => {
+          db.close();
+          dbPromise = null;
+        };
+        resolve(db);
+      };
+      request.onerror = () => reject(request.error);
+    }).then(async db => {
+      await migrateFromLocalStorage(db);
+      return db;
+    });
+    // Allow a later call to retry if opening failed
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const byteSize = (value: unknown): number => new Blob([JSON.stringify(value)]).size;
+
+const buildRecord = <T,>(store: CacheStore, key: string, value: T, ttlMs?: number): CacheRecord<T> => {
+  const now = Date.now();
+  const config = STORE_CONFIG[store];
+  return {
+    key,
+    version: config.version,
+    value,
+    size: byteSize(value),
+    createdAt: now,
+    lastAccessed: now,
+    expiresAt: now + (ttlMs ?? config.ttlMs),
+  };
+};
+
+const isUsable = (store: CacheStore, record: CacheRecord | undefined): boolean =>
+  !!record && record.version === STORE_CONFIG[store].version && record.expiresAt > Date.now();
+
+// Drops expired/outdated records, then least recently used ones until the store fits its budget
+const enforceBudget = async (db: IDBDatabase, store: CacheStore, maxBytes: number = STORE_CONFIG[store].maxBytes) => {
+  const tx = db.transaction(store, 'readwrite');
+  const objectStore = tx.objectStore(store);
+  const records = await promisify(objectStore.index('lastAccessed').getAll()) as CacheRecord[];
+
+  let total = 0;
+  const live: CacheRecord[] = [];
+  for (const record of records) {
+    if (isUsable(store, record)) {
+      live.push(record);
+      total += record.size;
+    } else {
+      objectStore.delete(record.key);
+    }
+  }
+
+  // `live` is ordered oldest access first
+  for (const record of live) {
+    if (total <= maxBytes) break;
+    objectStore.delete(record.key);
+    total -= record.size;
+  }
+
+  await transactionDone(tx);
+};
+
+const isQuotaError = (error: any) =>
+  error?.name === 'QuotaExceededError' || error?.name === 'NS_ERROR_DOM_QUOTA_REACHED';
+
+export const cacheGet = async <T,>(store: CacheStore, key: string): Promise<T | null> => {
+  try {
+    const db = await openDb();
+    const tx = db.transaction(store, 'readwrite');
+    const objectStore = tx.objectStore(store);
+    const record = await promisify(objectStore.get(key)) as CacheRecord<T> | undefined;
+
+    if (!record) return null;
+    if (!isUsable(store, record)) {
+      objectStore.delete(key);
+      return null;
+    }
+
+    objectStore.put({ ...record, lastAccessed: Date.now() });
+    await transactionDone(tx);
+    return record.value;
+  } catch (e) {
+    console.warn(`Failed to read '${key}' from ${store} cache:`, e);
+    return null;
+  }
+};
+
+// Every usable record of a store, most recently used first
+export const cacheEntries = async <T,>(store: CacheStore): Promise<{ key: string; value: T }[]> => {
+  try {
+    const db = await openDb();
+    const records = await promisify(db.transaction(store).objectStore(store).index('lastAccessed').getAll()) as CacheRecord<T>[];
+    return records
+      .filter(record => isUsable(store, record))
+      .reverse()
+      .map(record => ({ key: record.key, value: record.value }));
+  } catch (e) {
+    console.warn(`Failed to list ${store} cache:`, e);
+    return [];
+  }
+};
+
+export const cacheSet = async <T,>(store: CacheStore, key: string, value: T, ttlMs?: number): Promise<void> => {
+  const record = buildRecord(store, key, value, ttlMs);
+  const write = async (db: IDBDatabase) => {
+    const tx = db.transaction(store, 'readwrite');
+    tx.objectStore(store).put(record);
+    await transactionDone(tx);
+  };
+
+  try {
+    const db = await openDb();
+    try {
+      await write(db);
+    } catch (e) {
+      if (!isQuotaError(e)) throw e;
+      // The browser is out of space: halve this store's footprint and try once more
+      await enforceBudget(db, store, STORE_CONFIG[store].maxBytes / 2);
+      await write(db);
+    }
+    await enforceBudget(db, store);
+  } catch (e) {
+    console.warn(`Failed to save '${key}' to ${store} cache:`, e);
+  }
+};
+
+export const cacheDelete = async (store: CacheStore, key: string): Promise<void> => {
+  try {
+    const db = await openDb();
+    const tx = db.transaction(store, 'readwrite');
+    tx.objectStore(store).delete(key);
+    await transactionDone(tx);
+  } catch (e) {
+    console.warn(`Failed to delete '${key}' from ${store} cache:`, e);
+  }
+};
+
+export const cacheClear = async (store: CacheStore): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(store, 'readwrite');
+  tx.objectStore(store).clear();
+  await transactionDone(tx);
+};
+
+export const getCacheUsage = async (): Promise<Record<CacheStore, CacheUsage>> => {
+  const usage = {} as Record<CacheStore, CacheUsage>;
+  for (const store of STORES) {
+    usage[store] = { count: 0, bytes: 0, maxBytes: STORE_CONFIG[store].maxBytes };
+  }
+
+  try {
+    const db = await openDb();
+    for (const store of STORES) {
+      const records = await promisify(db.transaction(store).objectStore(store).getAll()) as CacheRecord[];
+      for (const record of records.filter(r => isUsable(store, r))) {
+        usage[store].count++;
+        usage[store].bytes += record.size;
+      }
+    }
+  } catch (e) {
+    console.warn("Failed to read cache usage:", e);
+  }
+  return usage;
+};
+
+// One-time move of lessons cached by older versions (`ib_lesson_${difficulty}_${topic}`
+// in localStorage) into IndexedDB, keyed as `${difficulty}_${topic}`.
+const migrateFromLocalStorage = async (db: IDBDatabase) => {
+  try {
+    if (localStorage.getItem(MIGRATION_FLAG)) return;
+
+    const legacyKeys = Object.keys(localStorage).filter(k => k.startsWith(LEGACY_LESSON_PREFIX));
+    const tx = db.transaction('lessons', 'readwrite');
+    for (const legacyKey of legacyKeys) {
+      try {
+        const value = JSON.parse(localStorage.getItem(legacyKey) || 'null');
+        if (value) tx.objectStore('lessons').put(buildRecord('lessons', legacyKey.slice(LEGACY_LESSON_PREFIX.length), value));
+      } catch (e) {
+        console.warn(`Skipping unreadable cached lesson '${legacyKey}':`, e);
+      }
+    }
+    await transactionDone(tx);
+
+    legacyKeys.forEach(k => localStorage.removeItem(k));
+    localStorage.setItem(MIGRATION_FLAG, String(Date.now()));
+  } catch (e) {
+    console.warn("Failed to migrate cached lessons from localStorage:", e);
+  }
+};
@@ -0,0 +1,133 @@
+import type { AIFeature } from './aiProvider';
+
+// Local log of model calls (feature, model, tokens, latency) so learners and
+// teachers can see how much of a key's quota the app uses, plus an optional
+// daily call cap. Entries older than a week are dropped.
+
+export interface UsageEntry {
+  at: number;
+  feature: AIFeature;
+  model: string;
+  promptTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  latencyMs: number;
+  ok: boolean;
+}
+
+export interface FeatureUsage {
+  calls: number;
+  failed: number;
+  tokens: number;
+  avgLatencyMs: number;
+}
+
+export interface UsageSummary {
+  today: Record<AIFeature, FeatureUsage>;
+  week: Record<AIFeature, FeatureUsage>;
+  callsToday: number;
+  dailyCap: number | null;
+}
+
+const USAGE_LOG_KEY = 'ib_usage_log';
+const DAILY_CAP_KEY = 'ib_daily_cap';
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+const FEATURES: AIFeature[] = ['lesson', 'dictionary', 'sentence', 'translate', 'grade'];
+
+// Shown to the learner as-is, so the message is in Bengali
+export class DailyCapError extends Error {
+  constructor(cap: number) {
+    super(`আজকের AI ব্যবহারের সীমা (${cap}টি অনুরোধ) শেষ। কাল আবার চেষ্টা করুন, ততক্ষণ সংরক্ষিত পাঠ ব্যবহার করুন।`);
+    this.name = 'DailyCapError';
+  }
+}
+
+export const isDailyCapError = (error: unknown): error is DailyCapError => error instanceof DailyCapError;
+
+const readLog = (): UsageEntry[] => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(USAGE_LOG_KEY) || '[]');
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (e) {
+    return [];
+  }
+};
+
+const startOfToday = () => {
+  const d = new Date();
+  d.setHours(0, 0, 0, 0);
+  return d.getTime();
+};
+
+export const recordUsage = (entry: UsageEntry) => {
+  const weekAgo = Date.now() - WEEK_MS;
+  const log = readLog().filter(e => e.at >= weekAgo);
+  log.push(entry);
+  try {
+    localStorage.setItem(USAGE_LOG_KEY, JSON.stringify(log));
+  } catch (e) {
+    console.warn("Failed to save usage log:", e);
+  }
+};
+
+export const clearUsageLog = () => localStorage.removeItem(USAGE_LOG_KEY);
+
+// Falls back to AI_DAILY_CAP from the build env; null means unlimited
+export const getDailyCap = (): number | null => {
+  const raw = localStorage.getItem(DAILY_CAP_KEY) ?? process.env.AI_DAILY_CAP;
+  const cap = Number(raw);
+  return raw && Number.isInteger(cap) && cap > 0 ? cap : null;
+};
+
+export const setDailyCap = (cap: number | null) => {
+  if (cap && cap > 0) {
+    localStorage.setItem(DAILY_CAP_KEY, String(Math.floor(cap)));
+  } else {
+    localStorage.removeItem(DAILY_CAP_KEY);
+  }
+};
+
+// Calls that count towards the daily cap. Failed attempts (e.g. a 503 the
+// scheduler retried) are logged but don't use up the learner's budget.
+export const getCallsToday = (): number => {
+  const today = startOfToday();
+  return readLog().filter(e => e.at >= today && e.ok).length;
+};
+
+// Throws DailyCapError when the cap is set and today's calls have reached it
+export const assertUnderDailyCap = () => {
+  const cap = getDailyCap();
+  if (cap !== null && getCallsToday() >= cap) throw new DailyCapError(cap);
+};
+
+export const isDailyCapReached = (): boolean => {
+  const cap = getDailyCap();
+  return cap !== null && getCallsToday() >= cap;
+};
+
+const summarise = (entries: UsageEntry[]): Record<AIFeature, FeatureUsage> => {
+  const result = {} as Record<AIFeature, FeatureUsage>;
+  for (const feature of FEATURES) {
+    const forFeature = entries.filter(e => e.feature === feature);
+    const latency = forFeature.reduce((sum, e) => sum + e.latencyMs, 0);
+    result[feature] = {
+      calls: forFeature.length,
+      failed: forFeature.filter(e => !e.ok).length,
+      tokens: forFeature.reduce((sum, e) => sum + e.totalTokens, 0),
+      avgLatencyMs: forFeature.length ? Math.round(latency / forFeature.length) : 0,
+    };
+  }
+  return result;
+};
+
+export const getUsageSummary = (): UsageSummary => {
+  const log = readLog();
+  const today = startOfToday();
+  const todayEntries = log.filter(e => e.at >= today);
+  return {
+    today: summarise(todayEntries),
+    week: summarise(log.filter(e => e.at >= Date.now() - WEEK_MS)),
+    callsToday: todayEntries.filter(e => e.ok).length,
+    dailyCap: getDailyCap(),
+  };
+};
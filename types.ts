@@ -10,7 +10,16 @@ export enum QuestionType {
   TranslateToBengali = 'translate_to_bng',
   FillBlank = 'fill_blank',
   Pronunciation = 'pronunciation',
-  WordBuilder = 'word_builder'
+  WordBuilder = 'word_builder',
+  Listening = 'listening',
+  SentenceBuilder = 'sentence_builder',
+  MatchPairs = 'match_pairs',
+  Dictation = 'dictation'
+}
+
+export interface MatchPair {
+  en: string;
+  bn: string;
 }
 
 export interface Question {
@@ -19,6 +28,9 @@ export interface Question {
   questionText: string;
   options: string[];
   correctAnswer: string;
+  acceptedAnswers?: string[]; // Other answers that also count as correct
+  pairs?: MatchPair[]; // match_pairs only
+  blankMeaning?: string; // fill_blank only: Bengali meaning of the missing word (hint)
   explanation: string; // Explanation in Bengali
 }
 
@@ -26,6 +38,9 @@ export interface LessonData {
   topic: string;
   title: string; // Title in Bengali
   questions: Question[];
+  templateVersion?: string; // Prompt template the lesson was generated with, e.g. "lesson.default@1"
+  isOffline?: boolean; // Served from the bundled lesson bank instead of being generated
+  isReview?: boolean; // Practice session assembled from the review queue
 }
 
 export interface UserState {
@@ -48,4 +63,29 @@ export interface DictionaryResult {
   examples: string[]; // Changed from single example string to array
   synonyms: string[];
   pronunciationTip?: string; // Bengali pronunciation guide
-}
\ No newline at end of file
+}
+
+export type GrammarErrorCategory = 'tense' | 'article' | 'preposition' | 'word_usage' | 'spelling' | 'word_order' | 'agreement' | 'punctuation' | 'other';
+
+export interface GrammarError {
+  start: number; // Character offset into the learner's sentence
+  end: number; // Exclusive
+  text: string; // The erroneous part of the sentence
+  category: GrammarErrorCategory;
+  suggestion: string; // Replacement text in English
+  explanation: string; // Bengali
+}
+
+export interface SentenceFeedback {
+  isCorrect: boolean;
+  correctedSentence: string;
+  errors: GrammarError[];
+  naturalness: number; // 0-100, how natural the sentence sounds to a native speaker
+  summary: string; // Short encouraging note in Bengali
+}
+
+// Model verdict on a typed answer that didn't match any expected answer
+export interface AnswerGrade {
+  isCorrect: boolean;
+  feedback: string; // Bengali
+}
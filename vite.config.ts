@@ -4,15 +4,25 @@ import react from '@vitejs/plugin-react';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // The key is only compiled into the bundle when explicitly calling Gemini from
+    // the browser (local development). Otherwise requests go through server/index.js.
+    const inlineKey = env.AI_PROVIDER === 'gemini' ? env.GEMINI_API_KEY : undefined;
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        proxy: {
+          '/api': `http://localhost:${env.PORT || 8787}`,
+        },
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.API_KEY': JSON.stringify(inlineKey),
+        'process.env.AI_PROXY_URL': JSON.stringify(env.AI_PROXY_URL),
+        'process.env.AI_PROVIDER': JSON.stringify(env.AI_PROVIDER),
+        'process.env.AI_MOCK_SEED': JSON.stringify(env.AI_MOCK_SEED),
+        'process.env.AI_REQUESTS_PER_MINUTE': JSON.stringify(env.AI_REQUESTS_PER_MINUTE),
+        'process.env.AI_DAILY_CAP': JSON.stringify(env.AI_DAILY_CAP)
       },
       resolve: {
         alias: {